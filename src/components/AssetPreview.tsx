@@ -0,0 +1,55 @@
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAssetUrl } from "@/hooks/use-asset-url";
+import type { ProjectAsset } from "@/hooks/use-project";
+import { assetContentType } from "@/lib/projects";
+import PdfViewer from "@/components/PdfViewer";
+
+interface AssetPreviewProps {
+  path: string;
+  asset: ProjectAsset;
+  readAsset: (storagePath: string) => Promise<Blob>;
+  className?: string;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Shown in place of the editor for uploaded files. Images and PDFs are
+// previewed; EPS files cannot be rendered by the browser.
+const AssetPreview = ({ path, asset, readAsset, className }: AssetPreviewProps) => {
+  const contentType = assetContentType(path);
+  const canPreview = contentType !== "application/postscript";
+  const { url, failed } = useAssetUrl(canPreview ? asset.storagePath : undefined, readAsset);
+
+  return (
+    <div className={cn("flex flex-col rounded-md border border-border", className)}>
+      <div className="flex items-center justify-between gap-3 border-b border-border px-3 py-2 text-xs text-muted-foreground">
+        <span className="truncate">{path}</span>
+        <span className="whitespace-nowrap">{formatSize(asset.size)}</span>
+      </div>
+      {!canPreview ? (
+        <div className="flex flex-1 items-center justify-center p-6 text-sm text-muted-foreground">
+          No preview for EPS files. Include it with \includegraphics to see it in the PDF.
+        </div>
+      ) : failed ? (
+        <div className="flex flex-1 items-center justify-center p-6 text-sm text-destructive">
+          Could not load this file. Reopen it to try again.
+        </div>
+      ) : !url ? (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : contentType === "application/pdf" ? (
+        <PdfViewer url={url} className="flex-1 min-h-0" />
+      ) : (
+        <div className="flex flex-1 min-h-0 items-center justify-center overflow-auto bg-muted/30 p-4">
+          <img src={url} alt={path} className="max-h-full max-w-full object-contain" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetPreview;
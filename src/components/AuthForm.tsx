@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+
+interface AuthFormProps {
+  description?: string;
+}
+
+const AuthForm = ({ description = "Sign in to continue" }: AuthFormProps) => {
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const { error } =
+        mode === "sign-in"
+          ? await supabase.auth.signInWithPassword({ email, password })
+          : await supabase.auth.signUp({
+              email,
+              password,
+              options: { emailRedirectTo: window.location.href },
+            });
+      if (error) throw error;
+
+      if (mode === "sign-up") {
+        toast({
+          title: "Check your email",
+          description: "Confirm your address to finish signing up",
+        });
+      }
+    } catch (err: unknown) {
+      toast({
+        title: mode === "sign-in" ? "Sign In Failed" : "Sign Up Failed",
+        description: err instanceof Error ? err.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-sm mx-auto p-6 bg-card border-border">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-1">
+          <h2 className="text-xl font-bold text-foreground">{mode === "sign-in" ? "Sign In" : "Create Account"}</h2>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="auth-email">Email</Label>
+          <Input
+            id="auth-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="auth-password">Password</Label>
+          <Input
+            id="auth-password"
+            type="password"
+            autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            minLength={6}
+            required
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {mode === "sign-in" ? "Sign In" : "Sign Up"}
+        </Button>
+
+        <button
+          type="button"
+          onClick={() => setMode(mode === "sign-in" ? "sign-up" : "sign-in")}
+          className="w-full text-sm text-muted-foreground hover:text-foreground"
+        >
+          {mode === "sign-in" ? "No account yet? Sign up" : "Already have an account? Sign in"}
+        </button>
+      </form>
+    </Card>
+  );
+};
+
+export default AuthForm;
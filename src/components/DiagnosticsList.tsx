@@ -0,0 +1,65 @@
+import { AlertTriangle, Ruler, XCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { Diagnostic, DiagnosticSeverity } from "@/lib/latex";
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { icon: typeof XCircle; className: string; label: string }> = {
+  error: { icon: XCircle, className: "text-destructive", label: "Error" },
+  warning: { icon: AlertTriangle, className: "text-yellow-500", label: "Warning" },
+  badbox: { icon: Ruler, className: "text-muted-foreground", label: "Bad box" },
+};
+
+interface DiagnosticsListProps {
+  diagnostics: Diagnostic[];
+  onSelect?: (diagnostic: Diagnostic) => void;
+}
+
+const DiagnosticsList = ({ diagnostics, onSelect }: DiagnosticsListProps) => {
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <Card className="bg-card border-border">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <h2 className="text-sm font-semibold text-foreground">Problems</h2>
+        <span className="text-xs text-muted-foreground">
+          {errorCount} errors, {warningCount} warnings
+          {errorCount > 0 && (
+            <>
+              {" · "}
+              <kbd className="font-mono">F8</kbd> jumps to the next error
+            </>
+          )}
+        </span>
+      </div>
+      <div className="max-h-64 overflow-y-auto">
+        <ul className="divide-y divide-border">
+          {diagnostics.map((diagnostic, index) => {
+            const { icon: Icon, className, label } = SEVERITY_STYLES[diagnostic.severity];
+            return (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => onSelect?.(diagnostic)}
+                  disabled={!diagnostic.line}
+                  className="w-full flex items-start gap-3 px-4 py-2 text-left text-sm hover:bg-muted disabled:cursor-default disabled:hover:bg-transparent"
+                >
+                  <Icon className={cn("w-4 h-4 mt-0.5 shrink-0", className)} aria-label={label} />
+                  <span className="flex-1 text-foreground">{diagnostic.message}</span>
+                  {diagnostic.file && (
+                    <span className="font-mono text-xs text-muted-foreground shrink-0">
+                      {diagnostic.file}
+                      {diagnostic.line ? `:${diagnostic.line}` : ""}
+                    </span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </Card>
+  );
+};
+
+export default DiagnosticsList;
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { Draft } from "@/lib/drafts";
+
+interface DraftRecoveryDialogProps {
+  // Newest first; the dialog is open while this is non-empty
+  drafts: Draft[];
+  onRecover: (draft: Draft) => void;
+  onDiscard: () => void;
+}
+
+// First \title or \section, to help tell revisions apart
+function draftHeading(latex: string): string | null {
+  return /\\(?:title|section)\*?\{([^{}]+)\}/.exec(latex)?.[1] ?? null;
+}
+
+const DraftRecoveryDialog = ({ drafts, onRecover, onDiscard }: DraftRecoveryDialogProps) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => setSelectedId(drafts[0]?.id ?? null), [drafts]);
+
+  const selected = drafts.find((draft) => draft.id === selectedId);
+
+  return (
+    <Dialog open={drafts.length > 0} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Recover previous session?</DialogTitle>
+          <DialogDescription>
+            Another tab left unsaved changes in this browser. Pick a revision to restore it here, or keep the current
+            document.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-64 space-y-1 overflow-y-auto">
+          {drafts.map((draft) => (
+            <button
+              key={draft.id}
+              type="button"
+              onClick={() => setSelectedId(draft.id)}
+              className={cn(
+                "flex w-full items-center gap-3 rounded-md border border-border p-2 text-left text-sm hover:bg-muted",
+                draft.id === selectedId && "border-primary bg-primary/10",
+              )}
+            >
+              <History className="w-4 h-4 shrink-0 text-muted-foreground" />
+              <span className="min-w-0 flex-1">
+                <span className="block truncate font-medium text-foreground">
+                  {draftHeading(draft.latex) ?? "Untitled draft"}
+                </span>
+                <span className="block text-xs text-muted-foreground">
+                  {formatDistanceToNow(draft.updatedAt, { addSuffix: true })} · {draft.latex.length} characters ·{" "}
+                  {draft.engine}
+                </span>
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard}>
+            Keep Current
+          </Button>
+          <Button onClick={() => selected && onRecover(selected)} disabled={!selected}>
+            Recover
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DraftRecoveryDialog;
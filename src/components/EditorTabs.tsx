@@ -0,0 +1,48 @@
+import { Star, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { basename } from "@/lib/project-tree";
+
+interface EditorTabsProps {
+  paths: string[];
+  activePath: string | null;
+  mainFile: string;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+}
+
+const EditorTabs = ({ paths, activePath, mainFile, onSelect, onClose }: EditorTabsProps) => (
+  <div role="tablist" className="flex min-h-9 overflow-x-auto border-b border-border">
+    {paths.map((path) => (
+      <div
+        key={path}
+        role="tab"
+        aria-selected={path === activePath}
+        title={path}
+        onClick={() => onSelect(path)}
+        onAuxClick={(event) => event.button === 1 && onClose(path)}
+        className={cn(
+          "group flex shrink-0 cursor-pointer items-center gap-1.5 border-r border-border px-3 py-1.5 text-xs",
+          path === activePath
+            ? "bg-background text-foreground shadow-[inset_0_-2px_0_hsl(var(--primary))]"
+            : "text-muted-foreground hover:bg-muted",
+        )}
+      >
+        {path === mainFile && <Star className="w-3 h-3 fill-current text-primary" aria-label="Main file" />}
+        <span>{basename(path)}</span>
+        <button
+          type="button"
+          aria-label={`Close ${basename(path)}`}
+          onClick={(event) => {
+            event.stopPropagation();
+            onClose(path);
+          }}
+          className="rounded p-0.5 opacity-0 hover:bg-muted-foreground/20 group-hover:opacity-100 group-aria-selected:opacity-100"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default EditorTabs;
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { FileArchive, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface ExportOptions {
+  // The latest PDF and its compile log
+  includeOutput: boolean;
+  // Recompile to get the .bbl file arXiv needs
+  includeBbl: boolean;
+  // Inline \input and \include'd files into the main file
+  flatten: boolean;
+}
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Whether there is a compiled PDF to include
+  hasOutput: boolean;
+  // Reports its own errors; the dialog closes once it succeeds
+  onExport: (options: ExportOptions) => Promise<boolean>;
+}
+
+const ExportDialog = ({ open, onOpenChange, hasOutput, onExport }: ExportDialogProps) => {
+  const [options, setOptions] = useState<ExportOptions>({ includeOutput: true, includeBbl: false, flatten: false });
+  const [isExporting, setIsExporting] = useState(false);
+
+  const setOption = (key: keyof ExportOptions, checked: boolean) => {
+    setOptions((current) => ({ ...current, [key]: checked }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      if (await onExport(options)) onOpenChange(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const choices: { key: keyof ExportOptions; label: string; description: string; disabled?: boolean }[] = [
+    {
+      key: "includeOutput",
+      label: "Compiled PDF and log",
+      description: hasOutput || options.includeBbl ? "Leave out for arXiv, which builds the PDF itself" : "Compile first",
+      disabled: !hasOutput && !options.includeBbl,
+    },
+    {
+      key: "includeBbl",
+      label: "Bibliography (.bbl)",
+      description: "Recompiles the project; arXiv needs it instead of .bib files",
+    },
+    {
+      key: "flatten",
+      label: "Flatten \\input and \\include",
+      description: "Inline included files into the main file",
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export as ZIP</DialogTitle>
+          <DialogDescription>
+            Downloads every source file and uploaded asset, ready for arXiv or another editor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {choices.map((choice) => (
+            <label key={choice.key} className="flex items-start gap-2 text-sm text-foreground">
+              <Checkbox
+                className="mt-0.5"
+                checked={options[choice.key] && !choice.disabled}
+                disabled={choice.disabled}
+                onCheckedChange={(checked) => setOption(choice.key, checked === true)}
+              />
+              <span>
+                {choice.label}
+                <span className="block text-xs text-muted-foreground">{choice.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FileArchive className="w-4 h-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
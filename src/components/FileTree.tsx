@@ -0,0 +1,405 @@
+import { type ChangeEvent, type DragEvent, type FormEvent, useMemo, useRef, useState } from "react";
+import { ChevronRight, File, FileImage, FilePlus, Folder, FolderPlus, MoreHorizontal, Star, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+} from "@/components/ui/sidebar";
+import { cn } from "@/lib/utils";
+import { useAssetUrl } from "@/hooks/use-asset-url";
+import type { ProjectAsset } from "@/hooks/use-project";
+import { basename, buildTree, dirname, isValidPath, isWithin, joinPath, type TreeNode } from "@/lib/project-tree";
+import { ASSET_EXTENSIONS, assetContentType } from "@/lib/projects";
+
+// Drag data type for moving tree entries; other drops are only accepted when
+// they carry files from the operating system
+const DRAG_TYPE = "application/x-project-path";
+const OS_FILES_TYPE = "Files";
+
+// Small preview for image assets, an icon for everything else
+const AssetIcon = ({
+  path,
+  asset,
+  readAsset,
+}: {
+  path: string;
+  asset: ProjectAsset;
+  readAsset: (storagePath: string) => Promise<Blob>;
+}) => {
+  const isImage = assetContentType(path)?.startsWith("image/");
+  const { url } = useAssetUrl(isImage ? asset.storagePath : undefined, readAsset);
+  return url ? <img src={url} alt="" className="h-4 w-4 shrink-0 rounded-sm object-cover" /> : <FileImage />;
+};
+
+type NameDialog =
+  | { kind: "file" | "folder"; parent: string }
+  | { kind: "rename"; path: string; isFolder: boolean };
+
+interface FileTreeProps {
+  projectName: string;
+  files: string[];
+  // Uploaded binary files by path
+  assets: Record<string, ProjectAsset>;
+  readAsset: (storagePath: string) => Promise<Blob>;
+  // Folders without files yet
+  folders: string[];
+  mainFile: string;
+  activePath: string | null;
+  onOpen: (path: string) => void;
+  onCreateFile: (path: string) => Promise<void>;
+  onCreateFolder: (path: string) => Promise<void>;
+  // Files picked or dropped from the operating system, added to `folder`
+  onUpload: (folder: string, files: File[]) => Promise<void>;
+  // Also used to move files and folders by drag and drop
+  onRename: (from: string, to: string) => Promise<void>;
+  onDelete: (path: string) => Promise<void>;
+  onSetMainFile: (path: string) => Promise<void>;
+}
+
+// Sidebar listing the project's files. Actions report their own errors, so
+// the tree only closes its dialogs once they finish.
+const FileTree = ({
+  projectName,
+  files,
+  assets,
+  readAsset,
+  folders,
+  mainFile,
+  activePath,
+  onOpen,
+  onCreateFile,
+  onCreateFolder,
+  onUpload,
+  onRename,
+  onDelete,
+  onSetMainFile,
+}: FileTreeProps) => {
+  const tree = useMemo(() => buildTree([...files, ...Object.keys(assets)], folders), [assets, files, folders]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dialog, setDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState("");
+  const [deleting, setDeleting] = useState<{ path: string; isFolder: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Folder path under the pointer while dragging; "" is the project root
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [uploadFolder, setUploadFolder] = useState("");
+
+  const openDialog = (next: NameDialog) => {
+    setDialog(next);
+    setName(next.kind === "rename" ? basename(next.path) : "");
+  };
+
+  const targetPath = !dialog
+    ? ""
+    : dialog.kind === "rename"
+      ? joinPath(dirname(dialog.path), name.trim())
+      : joinPath(dialog.parent, name.trim());
+  const isNameValid = isValidPath(targetPath);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const current = dialog;
+    if (!current || !isNameValid) return;
+    run(async () => {
+      if (current.kind === "rename") await onRename(current.path, targetPath);
+      else if (current.kind === "file") await onCreateFile(targetPath);
+      else await onCreateFolder(targetPath);
+      setDialog(null);
+    });
+  };
+
+  const pickFiles = (folder: string) => {
+    setUploadFolder(folder);
+    uploadInputRef.current?.click();
+  };
+
+  const handleFilesPicked = (event: ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (picked.length > 0) run(() => onUpload(uploadFolder, picked));
+  };
+
+  const toggleFolder = (path: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+  };
+
+  const dragProps = (path: string) => ({
+    draggable: true,
+    onDragStart: (event: DragEvent) => {
+      event.dataTransfer.setData(DRAG_TYPE, path);
+      event.dataTransfer.effectAllowed = "move";
+    },
+  });
+
+  const dropProps = (folder: string) => ({
+    onDragOver: (event: DragEvent) => {
+      const { types } = event.dataTransfer;
+      if (!types.includes(DRAG_TYPE) && !types.includes(OS_FILES_TYPE)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTarget(folder);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === folder ? null : current)),
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setDropTarget(null);
+      const dropped = Array.from(event.dataTransfer.files);
+      if (dropped.length > 0) {
+        run(() => onUpload(folder, dropped));
+        return;
+      }
+      const from = event.dataTransfer.getData(DRAG_TYPE);
+      if (!from || dirname(from) === folder || isWithin(folder, from)) return;
+      run(() => onRename(from, joinPath(folder, basename(from))));
+    },
+  });
+
+  const renderActions = (node: TreeNode) => {
+    const isFolder = node.type === "folder";
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover aria-label={`Actions for ${node.name}`}>
+            <MoreHorizontal />
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          {isFolder && (
+            <>
+              <DropdownMenuItem onSelect={() => openDialog({ kind: "file", parent: node.path })}>
+                New File
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openDialog({ kind: "folder", parent: node.path })}>
+                New Folder
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => pickFiles(node.path)}>Upload Files</DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {!isFolder && node.path.endsWith(".tex") && node.path !== mainFile && (
+            <DropdownMenuItem onSelect={() => run(() => onSetMainFile(node.path))}>Set as Main File</DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => openDialog({ kind: "rename", path: node.path, isFolder })}>
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            disabled={isWithin(mainFile, node.path)}
+            onSelect={() => setDeleting({ path: node.path, isFolder })}
+          >
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  const renderNode = (node: TreeNode) => {
+    if (node.type === "file") {
+      return (
+        <SidebarMenuItem key={node.path}>
+          <SidebarMenuButton
+            size="sm"
+            isActive={node.path === activePath}
+            onClick={() => onOpen(node.path)}
+            title={node.path}
+            {...dragProps(node.path)}
+          >
+            {assets[node.path] ? (
+              <AssetIcon path={node.path} asset={assets[node.path]} readAsset={readAsset} />
+            ) : (
+              <File />
+            )}
+            <span className="truncate">{node.name}</span>
+            {node.path === mainFile && <Star className="ml-auto fill-current text-primary" aria-label="Main file" />}
+          </SidebarMenuButton>
+          {renderActions(node)}
+        </SidebarMenuItem>
+      );
+    }
+
+    const isOpen = !collapsed.has(node.path);
+    return (
+      <SidebarMenuItem key={node.path} {...dropProps(node.path)}>
+        <Collapsible open={isOpen} onOpenChange={() => toggleFolder(node.path)}>
+          <CollapsibleTrigger asChild>
+            <SidebarMenuButton
+              size="sm"
+              className={cn(dropTarget === node.path && "ring-2 ring-sidebar-ring")}
+              {...dragProps(node.path)}
+            >
+              <ChevronRight className={cn("transition-transform", isOpen && "rotate-90")} />
+              <Folder />
+              <span className="truncate">{node.name}</span>
+            </SidebarMenuButton>
+          </CollapsibleTrigger>
+          {renderActions(node)}
+          <CollapsibleContent>
+            <SidebarMenuSub className="mr-0 pr-0">{node.children.map(renderNode)}</SidebarMenuSub>
+          </CollapsibleContent>
+        </Collapsible>
+      </SidebarMenuItem>
+    );
+  };
+
+  return (
+    <>
+      <SidebarHeader>
+        <p className="truncate px-2 text-sm font-semibold" title={projectName}>
+          {projectName}
+        </p>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup
+          {...dropProps("")}
+          className={cn("min-h-full", dropTarget === "" && "rounded-md ring-2 ring-inset ring-sidebar-ring")}
+        >
+          <SidebarGroupLabel>Files</SidebarGroupLabel>
+          <div className="absolute right-2 top-3.5 flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              aria-label="New file"
+              onClick={() => openDialog({ kind: "file", parent: "" })}
+            >
+              <FilePlus className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              aria-label="New folder"
+              onClick={() => openDialog({ kind: "folder", parent: "" })}
+            >
+              <FolderPlus className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              aria-label="Upload files"
+              title={`Upload images or figures (${ASSET_EXTENSIONS.join(", ")}), or drop them here`}
+              onClick={() => pickFiles("")}
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+          </div>
+          <input
+            ref={uploadInputRef}
+            type="file"
+            accept={ASSET_EXTENSIONS.join(",")}
+            multiple
+            hidden
+            onChange={handleFilesPicked}
+          />
+          <SidebarGroupContent>
+            <SidebarMenu>{tree.map(renderNode)}</SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <Dialog open={Boolean(dialog)} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {dialog?.kind === "file" ? "New File" : dialog?.kind === "folder" ? "New Folder" : "Rename"}
+              </DialogTitle>
+              <DialogDescription>
+                {dialog?.kind === "rename"
+                  ? `Currently ${dialog.path}`
+                  : `Created in ${dialog?.parent || "the project root"}. Use / to create subfolders.`}
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={dialog?.kind === "folder" ? "chapters" : "chapter1.tex"}
+              aria-invalid={Boolean(name.trim()) && !isNameValid}
+              autoFocus
+              required
+            />
+            {name.trim() && !isNameValid && (
+              <p className="text-sm text-destructive">Use a relative path without empty, "." or ".." segments.</p>
+            )}
+            <DialogFooter>
+              <Button type="submit" disabled={isBusy || !isNameValid}>
+                {dialog?.kind === "rename" ? "Rename" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(deleting)} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting && basename(deleting.path)}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.isFolder
+                ? "The folder and every file inside it will be deleted. This cannot be undone."
+                : "The file will be deleted. This cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && run(() => onDelete(deleting.path))}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default FileTree;
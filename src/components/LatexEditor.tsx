@@ -0,0 +1,209 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+import { Compartment, EditorState } from "@codemirror/state";
+import {
+  EditorView,
+  crosshairCursor,
+  drawSelection,
+  dropCursor,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderText,
+  rectangularSelection,
+} from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap, indentWithTab } from "@codemirror/commands";
+import { bracketMatching, foldGutter, foldKeymap, indentOnInput } from "@codemirror/language";
+import { highlightSelectionMatches, searchKeymap } from "@codemirror/search";
+import { autocompletion, closeBrackets, closeBracketsKeymap, completionKeymap } from "@codemirror/autocomplete";
+import { lintGutter, lintKeymap, setDiagnostics } from "@codemirror/lint";
+import { cn } from "@/lib/utils";
+import type { Diagnostic } from "@/lib/latex";
+import { latexCompletionSource, projectSources } from "@/lib/latex-completions";
+import { goToNextError, latex, latexEditorTheme, toEditorDiagnostics } from "@/lib/latex-editor";
+
+export interface LatexEditorHandle {
+  focus: () => void;
+  // Selects a 1-based line and scrolls it into view
+  selectLine: (line: number) => void;
+  // 1-based line of the main cursor
+  getCursorLine: () => number;
+}
+
+interface LatexEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Compiler diagnostics for this file, shown as gutter icons, underlines and
+  // tooltips
+  diagnostics?: Diagnostic[];
+  // Forward search from the cursor line, bound to Mod-Alt-J
+  onShowInPdf?: (line: number) => void;
+  // Contents of the project's other files, for completions
+  getProjectSources?: () => string[];
+  // Files dropped from the operating system. Resolves to text inserted
+  // where they were dropped, if any.
+  onDropFiles?: (files: File[]) => Promise<string | null>;
+  placeholder?: string;
+  className?: string;
+}
+
+const NO_DIAGNOSTICS: Diagnostic[] = [];
+
+// Holds the placeholder extension, so a new placeholder does not recreate the
+// editor
+const placeholderSlot = new Compartment();
+
+const LatexEditor = forwardRef<LatexEditorHandle, LatexEditorProps>(
+  (
+    {
+      value,
+      onChange,
+      diagnostics = NO_DIAGNOSTICS,
+      onShowInPdf,
+      getProjectSources,
+      onDropFiles,
+      placeholder,
+      className,
+    },
+    ref,
+  ) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const viewRef = useRef<EditorView | null>(null);
+    // Only read when the editor is created
+    const initialValueRef = useRef(value);
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+    const onShowInPdfRef = useRef(onShowInPdf);
+    onShowInPdfRef.current = onShowInPdf;
+    const getProjectSourcesRef = useRef(getProjectSources);
+    getProjectSourcesRef.current = getProjectSources;
+    const onDropFilesRef = useRef(onDropFiles);
+    onDropFilesRef.current = onDropFiles;
+
+    useEffect(() => {
+      const view = new EditorView({
+        parent: containerRef.current!,
+        state: EditorState.create({
+          doc: initialValueRef.current,
+          extensions: [
+            lintGutter(),
+            lineNumbers(),
+            highlightActiveLineGutter(),
+            highlightSpecialChars(),
+            history(),
+            foldGutter(),
+            drawSelection(),
+            dropCursor(),
+            EditorState.allowMultipleSelections.of(true),
+            indentOnInput(),
+            bracketMatching(),
+            closeBrackets(),
+            autocompletion({ override: [latexCompletionSource] }),
+            rectangularSelection(),
+            crosshairCursor(),
+            highlightActiveLine(),
+            highlightSelectionMatches(),
+            EditorView.lineWrapping,
+            placeholderSlot.of([]),
+            keymap.of([
+              ...closeBracketsKeymap,
+              ...defaultKeymap,
+              ...searchKeymap,
+              ...historyKeymap,
+              ...foldKeymap,
+              ...completionKeymap,
+              { key: "F8", run: goToNextError },
+              {
+                key: "Mod-Alt-j",
+                run: (view) => {
+                  if (!onShowInPdfRef.current) return false;
+                  onShowInPdfRef.current(view.state.doc.lineAt(view.state.selection.main.head).number);
+                  return true;
+                },
+              },
+              ...lintKeymap,
+              indentWithTab,
+            ]),
+            latex(),
+            projectSources.of(() => getProjectSourcesRef.current?.() ?? []),
+            latexEditorTheme,
+            // Without a handler, dropped files are inserted as text
+            EditorView.domEventHandlers({
+              drop: (event, view) => {
+                const files = Array.from(event.dataTransfer?.files ?? []);
+                if (!onDropFilesRef.current || files.length === 0) return false;
+                event.preventDefault();
+                const pos = view.posAtCoords({ x: event.clientX, y: event.clientY }) ?? view.state.selection.main.head;
+                onDropFilesRef.current(files).then((text) => {
+                  if (!text || viewRef.current !== view) return;
+                  const at = Math.min(pos, view.state.doc.length);
+                  view.dispatch({ changes: { from: at, insert: text }, selection: { anchor: at + text.length } });
+                });
+                return true;
+              },
+            }),
+            EditorView.updateListener.of((update) => {
+              if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+            }),
+          ],
+        }),
+      });
+      viewRef.current = view;
+      return () => {
+        view.destroy();
+        viewRef.current = null;
+      };
+      // The editor owns its state after mount; value changes are synced below
+    }, []);
+
+    useEffect(() => {
+      viewRef.current?.dispatch({ effects: placeholderSlot.reconfigure(placeholderText(placeholder ?? "")) });
+    }, [placeholder]);
+
+    // Replace the document when the value changes from outside the editor,
+    // e.g. when a draft is restored.
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view || view.state.doc.toString() === value) return;
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+    }, [value]);
+
+    useEffect(() => {
+      const view = viewRef.current;
+      if (!view) return;
+      view.dispatch(setDiagnostics(view.state, toEditorDiagnostics(view.state.doc, diagnostics)));
+    }, [diagnostics]);
+
+    useImperativeHandle(ref, () => ({
+      focus: () => viewRef.current?.focus(),
+      selectLine: (lineNumber) => {
+        const view = viewRef.current;
+        if (!view) return;
+        const line = view.state.doc.line(Math.min(Math.max(lineNumber, 1), view.state.doc.lines));
+        view.dispatch({
+          selection: { anchor: line.from, head: line.to },
+          effects: EditorView.scrollIntoView(line.from, { y: "center" }),
+        });
+        view.focus();
+      },
+      getCursorLine: () => {
+        const state = viewRef.current?.state;
+        return state ? state.doc.lineAt(state.selection.main.head).number : 1;
+      },
+    }));
+
+    return (
+      <div
+        ref={containerRef}
+        className={cn(
+          "overflow-hidden rounded-md border border-[hsl(var(--code-border))] focus-within:ring-2 focus-within:ring-primary",
+          className,
+        )}
+      />
+    );
+  },
+);
+LatexEditor.displayName = "LatexEditor";
+
+export default LatexEditor;
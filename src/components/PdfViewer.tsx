@@ -0,0 +1,545 @@
+import { type MouseEvent, type RefObject, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { type PDFDocumentProxy, type RenderTask, TextLayer } from "pdfjs-dist";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Loader2,
+  PanelLeft,
+  Search,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { countMatches, getPageTexts, type LoadedPdf, loadPdf, type PageSize } from "@/lib/pdf";
+import type { PdfLocation } from "@/lib/synctex";
+
+type ZoomMode = "page-width" | "page-fit" | number;
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const PAGE_GAP = 16;
+const THUMBNAIL_WIDTH = 96;
+// How long a forward search highlight stays on screen, in milliseconds
+const HIGHLIGHT_DURATION = 2000;
+
+// Renders pages within this distance of the viewport ahead of time
+const PRERENDER_MARGIN = "100% 0px";
+
+function useInView(ref: RefObject<HTMLElement>, rootRef: RefObject<HTMLElement>): boolean {
+  const [inView, setInView] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting), {
+      root: rootRef.current,
+      rootMargin: PRERENDER_MARGIN,
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, rootRef]);
+
+  return inView;
+}
+
+interface PdfPageProps {
+  document: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  scale: number;
+  rootRef: RefObject<HTMLElement>;
+  // Thumbnails skip the text layer
+  withTextLayer?: boolean;
+  query?: string;
+  // Area to mark on this page, in PDF points from the top-left corner
+  highlight?: PdfLocation | null;
+  className?: string;
+}
+
+// Draws into a fresh canvas and swaps it in once rendering finishes, so the
+// previous rendering stays on screen during recompiles and zoom changes.
+const PdfPage = ({
+  document,
+  pageNumber,
+  size,
+  scale,
+  rootRef,
+  withTextLayer = false,
+  query = "",
+  highlight = null,
+  className,
+}: PdfPageProps) => {
+  const pageRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const canvasHostRef = useRef<HTMLDivElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [textDivs, setTextDivs] = useState<HTMLElement[]>([]);
+  const inView = useInView(pageRef, rootRef);
+
+  useEffect(() => {
+    if (!inView) return;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+    let cancelled = false;
+
+    (async () => {
+      const page = await document.getPage(pageNumber);
+      if (cancelled) return;
+
+      const viewport = page.getViewport({ scale });
+      const outputScale = window.devicePixelRatio || 1;
+      const canvas = window.document.createElement("canvas");
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = "100%";
+      canvas.style.height = "100%";
+
+      renderTask = page.render({
+        canvasContext: canvas.getContext("2d")!,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      });
+      await renderTask.promise;
+      if (cancelled) return;
+      canvasHostRef.current?.replaceChildren(canvas);
+
+      if (!withTextLayer || !textLayerRef.current) return;
+      const container = window.document.createElement("div");
+      container.className = "textLayer";
+      textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+      await textLayer.render();
+      if (cancelled) return;
+      textLayerRef.current.replaceChildren(...container.childNodes);
+      setTextDivs(textLayer.textDivs);
+    })().catch((error) => {
+      if (!cancelled && error?.name !== "RenderingCancelledException") {
+        console.error(`Failed to render page ${pageNumber}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [document, inView, pageNumber, scale, withTextLayer]);
+
+  useEffect(() => {
+    const needle = query.toLocaleLowerCase();
+    for (const div of textDivs) {
+      div.classList.toggle("highlight", !!needle && !!div.textContent?.toLocaleLowerCase().includes(needle));
+    }
+  }, [query, textDivs]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [highlight]);
+
+  return (
+    <div
+      ref={pageRef}
+      data-page-number={pageNumber}
+      className={cn("relative bg-white shadow-md", className)}
+      style={{
+        width: size.width * scale,
+        height: size.height * scale,
+        ["--scale-factor" as string]: scale,
+      }}
+    >
+      <div ref={canvasHostRef} className="absolute inset-0" />
+      {withTextLayer && <div ref={textLayerRef} className="textLayer" />}
+      {highlight && (
+        <div
+          ref={highlightRef}
+          className="pointer-events-none absolute rounded-sm bg-primary/25 ring-2 ring-primary"
+          style={{
+            left: highlight.x * scale,
+            top: highlight.y * scale,
+            width: highlight.width * scale,
+            height: highlight.height * scale,
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface PdfViewerProps {
+  url: string | null;
+  placeholder?: string;
+  // Scrolled to and briefly marked whenever a new location is passed
+  highlight?: PdfLocation | null;
+  // Ctrl/Cmd-click on a page, with the position in PDF points from its
+  // top-left corner
+  onInverseSearch?: (page: number, x: number, y: number) => void;
+  className?: string;
+}
+
+// PDF.js viewer with thumbnails, zoom and search. Zoom and scroll position
+// carry over when the URL changes, since the new document only replaces the
+// old one once its pages have been measured.
+const PdfViewer = ({
+  url,
+  placeholder = "No PDF loaded",
+  highlight = null,
+  onInverseSearch,
+  className,
+}: PdfViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const thumbnailsRef = useRef<HTMLDivElement>(null);
+  // Scroll position as a fraction of the content height, kept across zooms
+  const scrollRatioRef = useRef(0);
+
+  const [pdf, setPdf] = useState<LoadedPdf | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [zoom, setZoom] = useState<ZoomMode>("page-width");
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState("1");
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const [query, setQuery] = useState("");
+  const [pageTexts, setPageTexts] = useState<string[] | null>(null);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [activeHighlight, setActiveHighlight] = useState<PdfLocation | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setPdf(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+    loadPdf(url)
+      .then((loaded) => {
+        if (cancelled) {
+          loaded.document.destroy();
+          return;
+        }
+        setPdf(loaded);
+        setPageTexts(null);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Failed to load PDF");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  // Release the previous document once the new one is on screen
+  useEffect(() => () => void pdf?.document.destroy(), [pdf]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = useMemo(() => {
+    if (typeof zoom === "number") return zoom;
+    const first = pdf?.pageSizes[0];
+    if (!first || !viewportSize.width) return 1;
+    const widthScale = (viewportSize.width - PAGE_GAP * 2) / first.width;
+    if (zoom === "page-width") return widthScale;
+    return Math.min(widthScale, (viewportSize.height - PAGE_GAP * 2) / first.height);
+  }, [pdf, viewportSize, zoom]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container) container.scrollTop = scrollRatioRef.current * container.scrollHeight;
+  }, [scale]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container || !pdf) return;
+    scrollRatioRef.current = container.scrollTop / (container.scrollHeight || 1);
+
+    // The current page is the last one starting above the upper third
+    const threshold = container.scrollTop + container.clientHeight / 3;
+    const pages = container.querySelectorAll<HTMLElement>("[data-page-number]");
+    let page = 1;
+    pages.forEach((element) => {
+      if (element.offsetTop <= threshold) page = Number(element.dataset.pageNumber);
+    });
+    if (page !== currentPage) {
+      setCurrentPage(page);
+      setPageInput(String(page));
+    }
+  };
+
+  const scrollToPage = (pageNumber: number) => {
+    const container = containerRef.current;
+    const page = container?.querySelector<HTMLElement>(`[data-page-number="${pageNumber}"]`);
+    if (container && page) container.scrollTo({ top: page.offsetTop - PAGE_GAP });
+  };
+
+  const numPages = pdf?.pageSizes.length ?? 0;
+
+  const goToPage = (pageNumber: number) => {
+    const clamped = Math.min(Math.max(pageNumber, 1), numPages);
+    setPageInput(String(clamped));
+    scrollToPage(clamped);
+  };
+
+  const stepZoom = (direction: 1 | -1) => {
+    const next =
+      direction > 0
+        ? ZOOM_LEVELS.find((level) => level > scale + 0.01)
+        : [...ZOOM_LEVELS].reverse().find((level) => level < scale - 0.01);
+    if (next) setZoom(next);
+  };
+
+  // Page texts are extracted on the first search and reused until the
+  // document changes.
+  useEffect(() => {
+    if (!query || !pdf || pageTexts) return;
+    let cancelled = false;
+    getPageTexts(pdf.document).then((texts) => {
+      if (!cancelled) setPageTexts(texts);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageTexts, query]);
+
+  // One entry per occurrence, holding its page number
+  const matches = useMemo(
+    () => (pageTexts ?? []).flatMap((text, index) => Array<number>(countMatches(text, query)).fill(index + 1)),
+    [pageTexts, query],
+  );
+
+  useEffect(() => setMatchIndex(0), [query]);
+
+  useEffect(() => {
+    setActiveHighlight(highlight);
+    if (!highlight) return;
+    const timer = setTimeout(() => setActiveHighlight(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [highlight]);
+
+  const handlePageClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (!onInverseSearch || !(event.ctrlKey || event.metaKey)) return;
+    const page = (event.target as HTMLElement).closest<HTMLElement>("[data-page-number]");
+    if (!page) return;
+    event.preventDefault();
+    const rect = page.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / scale;
+    const y = (event.clientY - rect.top) / scale;
+    onInverseSearch(Number(page.dataset.pageNumber), x, y);
+  };
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setMatchIndex(wrapped);
+    goToPage(matches[wrapped]);
+  };
+
+  return (
+    <div className={cn("flex flex-col min-h-0 rounded-lg border border-border bg-muted overflow-hidden", className)}>
+      <div className="flex flex-wrap items-center gap-1 border-b border-border bg-card px-2 py-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          aria-label="Toggle thumbnails"
+          aria-pressed={showThumbnails}
+          onClick={() => setShowThumbnails(!showThumbnails)}
+          disabled={!pdf}
+        >
+          <PanelLeft className="w-4 h-4" />
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          aria-label="Previous page"
+          onClick={() => goToPage(currentPage - 1)}
+          disabled={!pdf || currentPage <= 1}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            goToPage(Number(pageInput) || 1);
+          }}
+          className="flex items-center gap-1 text-xs text-muted-foreground"
+        >
+          <Input
+            value={pageInput}
+            onChange={(event) => setPageInput(event.target.value)}
+            className="h-8 w-12 px-2 text-center text-xs"
+            aria-label="Page number"
+            disabled={!pdf}
+          />
+          <span>/ {numPages}</span>
+        </form>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          aria-label="Next page"
+          onClick={() => goToPage(currentPage + 1)}
+          disabled={!pdf || currentPage >= numPages}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+
+        <div className="mx-1 h-5 w-px bg-border" />
+
+        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Zoom out" onClick={() => stepZoom(-1)}>
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <Select
+          value={String(zoom)}
+          onValueChange={(value) => setZoom(value === "page-width" || value === "page-fit" ? value : Number(value))}
+        >
+          <SelectTrigger className="h-8 w-28 text-xs" aria-label="Zoom">
+            <SelectValue>{typeof zoom === "number" ? `${Math.round(zoom * 100)}%` : undefined}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="page-width">Fit width</SelectItem>
+            <SelectItem value="page-fit">Fit page</SelectItem>
+            {ZOOM_LEVELS.map((level) => (
+              <SelectItem key={level} value={String(level)}>
+                {Math.round(level * 100)}%
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Zoom in" onClick={() => stepZoom(1)}>
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+
+        <div className="ml-auto flex items-center gap-1">
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" aria-label="Loading PDF" />}
+          <div className="relative">
+            <Search className="absolute left-2 top-2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") goToMatch(matchIndex + (event.shiftKey ? -1 : 1));
+              }}
+              placeholder="Search"
+              className="h-8 w-36 pl-8 text-xs"
+              aria-label="Search in PDF"
+              disabled={!pdf}
+            />
+          </div>
+          {query && (
+            <>
+              <span className="min-w-12 text-center text-xs text-muted-foreground">
+                {matches.length > 0 ? `${matchIndex + 1}/${matches.length}` : "0/0"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label="Previous match"
+                onClick={() => goToMatch(matchIndex - 1)}
+                disabled={matches.length === 0}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                aria-label="Next match"
+                onClick={() => goToMatch(matchIndex + 1)}
+                disabled={matches.length === 0}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {pdf && showThumbnails && (
+          <div
+            ref={thumbnailsRef}
+            className="w-32 shrink-0 overflow-y-auto border-r border-border bg-card p-2 space-y-2"
+          >
+            {pdf.pageSizes.map((size, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => goToPage(index + 1)}
+                className={cn(
+                  "block w-full rounded p-1 text-center text-xs text-muted-foreground hover:bg-muted",
+                  currentPage === index + 1 && "bg-muted ring-1 ring-primary text-foreground",
+                )}
+              >
+                <PdfPage
+                  document={pdf.document}
+                  pageNumber={index + 1}
+                  size={size}
+                  scale={THUMBNAIL_WIDTH / size.width}
+                  rootRef={thumbnailsRef}
+                  className="mx-auto"
+                />
+                <span className="mt-1 block">{index + 1}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div ref={containerRef} onScroll={handleScroll} className="relative flex-1 overflow-auto">
+          {pdf ? (
+            <div
+              onClick={handlePageClick}
+              className="flex flex-col items-center"
+              style={{ gap: PAGE_GAP, padding: PAGE_GAP }}
+            >
+              {pdf.pageSizes.map((size, index) => (
+                <PdfPage
+                  key={index}
+                  document={pdf.document}
+                  pageNumber={index + 1}
+                  size={size}
+                  scale={scale}
+                  rootRef={containerRef}
+                  query={query}
+                  highlight={activeHighlight?.page === index + 1 ? activeHighlight : null}
+                  withTextLayer
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="flex h-full items-center justify-center p-4 text-center">
+              {isLoading ? (
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              ) : (
+                <p className={loadError ? "text-destructive text-sm" : "text-muted-foreground"}>
+                  {loadError ?? placeholder}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
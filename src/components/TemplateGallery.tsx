@@ -0,0 +1,388 @@
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { LayoutTemplate, Loader2, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import TemplateThumbnail from "@/components/TemplateThumbnail";
+import { toast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import { BUILT_IN_TEMPLATES } from "@/lib/builtin-templates";
+import { DEFAULT_TEX_ENGINE, TEX_ENGINES, type TexEngine } from "@/lib/latex";
+import {
+  deleteTeamTemplate,
+  fillTemplate,
+  listTeamTemplates,
+  type Template,
+  TEMPLATE_LAYOUTS,
+  type TemplateUpload,
+  templateFields,
+  uploadTeamTemplate,
+} from "@/lib/templates";
+
+interface TemplateGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Label of the button that uses the selected template
+  actionLabel: string;
+  // Without a project only the main file can be used, so templates with
+  // more files are not offered
+  singleFile?: boolean;
+  // Gets the filled-in files; reports its own errors and the gallery closes
+  // once it succeeds
+  onSelect: (template: Template, files: Record<string, string>, values: Record<string, string>) => Promise<boolean>;
+}
+
+const EMPTY_UPLOAD: TemplateUpload = {
+  name: "",
+  description: "",
+  layout: "article",
+  engine: DEFAULT_TEX_ENGINE,
+  // Private unless the uploader chooses to share it
+  shared: false,
+};
+
+const TemplateGallery = ({ open, onOpenChange, actionLabel, singleFile, onSelect }: TemplateGalleryProps) => {
+  const { session } = useSession();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState(BUILT_IN_TEMPLATES[0].id);
+  // Kept across templates, since most of them ask for the same fields
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isApplying, setIsApplying] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [upload, setUpload] = useState(EMPTY_UPLOAD);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [deleting, setDeleting] = useState<Template | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: teamTemplates = [], isLoading } = useQuery({
+    queryKey: ["templates", session?.user.id],
+    queryFn: listTeamTemplates,
+    enabled: open && Boolean(session),
+  });
+
+  const groups = useMemo(() => {
+    const byCategory = new Map<string, Template[]>();
+    for (const template of [...BUILT_IN_TEMPLATES, ...teamTemplates]) {
+      byCategory.set(template.category, [...(byCategory.get(template.category) ?? []), template]);
+    }
+    return [...byCategory];
+  }, [teamTemplates]);
+
+  const selected =
+    [...BUILT_IN_TEMPLATES, ...teamTemplates].find((template) => template.id === selectedId) ?? BUILT_IN_TEMPLATES[0];
+  const fields = useMemo(() => templateFields(selected), [selected]);
+  const fileCount = Object.keys(selected.files).length;
+  const isUnavailable = singleFile && fileCount > 1;
+
+  const onError = (title: string) => (err: unknown) => {
+    toast({
+      title,
+      description: err instanceof Error ? err.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadTeamTemplate({ ...upload, name: upload.name.trim() }, file),
+    onSuccess: ({ template, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["templates"] });
+      if (skipped.length > 0) {
+        toast({
+          title: "Some Files Were Skipped",
+          description: `Templates can only hold text files: ${skipped.join(", ")}`,
+        });
+      }
+      setUpload(EMPTY_UPLOAD);
+      setUploadFile(null);
+      setIsUploading(false);
+      setSelectedId(template.id);
+    },
+    onError: onError("Could Not Upload Template"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteTeamTemplate(id),
+    onSuccess: () => {
+      setDeleting(null);
+      setSelectedId(BUILT_IN_TEMPLATES[0].id);
+      queryClient.invalidateQueries({ queryKey: ["templates"] });
+    },
+    onError: onError("Could Not Delete Template"),
+  });
+
+  const handleSelect = async () => {
+    setIsApplying(true);
+    try {
+      if (await onSelect(selected, fillTemplate(selected, values), values)) onOpenChange(false);
+    } catch (err) {
+      onError("Could Not Use Template")(err);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const setUploadOption = <K extends keyof TemplateUpload>(key: K, value: TemplateUpload[K]) => {
+    setUpload((current) => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isApplying && onOpenChange(next)}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Templates</DialogTitle>
+          <DialogDescription>Start from a ready-made document and fill in its details.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+          <div className="flex flex-col gap-2">
+            <Command
+              value={isUploading ? "" : selected.id}
+              onValueChange={(value) => {
+                setSelectedId(value);
+                setIsUploading(false);
+              }}
+              className="rounded-md border border-border"
+            >
+              <CommandInput placeholder="Search templates" />
+              <CommandList className="max-h-[360px]">
+                <CommandEmpty>No templates found</CommandEmpty>
+                {groups.map(([category, templates]) => (
+                  <CommandGroup key={category} heading={category}>
+                    {templates.map((template) => (
+                      <CommandItem
+                        key={template.id}
+                        value={template.id}
+                        keywords={[template.name, template.description, category]}
+                        onSelect={(value) => {
+                          setSelectedId(value);
+                          setIsUploading(false);
+                        }}
+                      >
+                        <TemplateThumbnail layout={template.layout} className="mr-2 w-6 shrink-0" />
+                        <span className="truncate">{template.name}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                ))}
+                {session && isLoading && (
+                  <div className="flex justify-center py-2">
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+              </CommandList>
+            </Command>
+            {session && (
+              <Button variant="outline" size="sm" onClick={() => setIsUploading(true)}>
+                <Upload className="w-4 h-4 mr-2" />
+                Upload Template
+              </Button>
+            )}
+          </div>
+
+          {isUploading ? (
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (uploadFile) uploadMutation.mutate(uploadFile);
+              }}
+            >
+              <h3 className="font-semibold text-foreground">Upload a Team Template</h3>
+              <p className="text-sm text-muted-foreground">
+                A .tex file or a ZIP archive of a project. Use placeholders like {"{{title}}"}, {"{{author}}"} and{" "}
+                {"{{date}}"} for the fields people fill in.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={upload.name}
+                  onChange={(e) => setUploadOption("name", e.target.value)}
+                  placeholder="e.g. Lab Report"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={upload.description}
+                  onChange={(e) => setUploadOption("description", e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Thumbnail</Label>
+                  <Select
+                    value={upload.layout}
+                    onValueChange={(value) => setUploadOption("layout", value as TemplateUpload["layout"])}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEMPLATE_LAYOUTS.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Engine</Label>
+                  <Select value={upload.engine} onValueChange={(value) => setUploadOption("engine", value as TexEngine)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEX_ENGINES.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                  Choose File
+                </Button>
+                <span className="truncate text-sm text-muted-foreground">{uploadFile?.name ?? "No file chosen"}</span>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".tex,.zip,application/zip"
+                  hidden
+                  onChange={(e) => {
+                    setUploadFile(e.target.files?.[0] ?? null);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={upload.shared}
+                  onCheckedChange={(checked) => setUploadOption("shared", checked === true)}
+                />
+                Share with everyone on this site
+              </label>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsUploading(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={uploadMutation.isPending || !upload.name.trim() || !uploadFile}>
+                  {uploadMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="w-4 h-4 mr-2" />
+                  )}
+                  Upload
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : (
+            <form
+              className="grid gap-4 sm:grid-cols-[10rem_1fr]"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSelect();
+              }}
+            >
+              <TemplateThumbnail layout={selected.layout} />
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold text-foreground">{selected.name}</h3>
+                    <p className="text-sm text-muted-foreground">{selected.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {fileCount === 1 ? "1 file" : `${fileCount} files`} ·{" "}
+                      {TEX_ENGINES.find((engine) => engine.value === selected.engine)?.label}
+                    </p>
+                  </div>
+                  {selected.ownerId && selected.ownerId === session?.user.id && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Delete template"
+                      onClick={() => setDeleting(selected)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                {fields.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`template-field-${field.key}`}>{field.label}</Label>
+                    <Input
+                      id={`template-field-${field.key}`}
+                      value={values[field.key] ?? ""}
+                      onChange={(e) => setValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                      placeholder={field.fallback}
+                    />
+                  </div>
+                ))}
+                {isUnavailable && (
+                  <p className="text-sm text-muted-foreground">
+                    This template has several files. Create a project from it on the Projects page.
+                  </p>
+                )}
+              </div>
+              <DialogFooter className="sm:col-span-2">
+                <Button type="submit" disabled={isApplying || isUnavailable}>
+                  {isApplying ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <LayoutTemplate className="w-4 h-4 mr-2" />
+                  )}
+                  {actionLabel}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </div>
+      </DialogContent>
+
+      <AlertDialog open={Boolean(deleting)} onOpenChange={(next) => !next && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The template will no longer be offered to anyone. Projects created from it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteMutation.mutate(deleting.id)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+};
+
+export default TemplateGallery;
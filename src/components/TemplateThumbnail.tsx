@@ -0,0 +1,109 @@
+import { cn } from "@/lib/utils";
+import type { TemplateLayout } from "@/lib/templates";
+
+// Grey bars standing in for lines of text
+const Lines = ({ count, className }: { count: number; className?: string }) => (
+  <div className={cn("space-y-1", className)}>
+    {Array.from({ length: count }, (_, index) => (
+      <div key={index} className={cn("h-1 rounded-full bg-muted", index === count - 1 && "w-2/3")} />
+    ))}
+  </div>
+);
+
+const Heading = ({ className }: { className?: string }) => (
+  <div className={cn("h-1.5 w-1/3 rounded-full bg-foreground/40", className)} />
+);
+
+function renderPage(layout: TemplateLayout) {
+  switch (layout) {
+    case "slides":
+      return (
+        <div className="flex h-full flex-col">
+          <div className="h-3 bg-primary/70" />
+          <div className="flex flex-1 flex-col items-center justify-center gap-1.5 px-4">
+            <div className="h-2 w-2/3 rounded-full bg-foreground/50" />
+            <div className="h-1 w-1/3 rounded-full bg-muted" />
+          </div>
+          <div className="h-1.5 bg-primary/40" />
+        </div>
+      );
+    case "cv":
+      return (
+        <div className="space-y-2 p-3">
+          <div className="h-2 w-1/2 rounded-full bg-foreground/50" />
+          <div className="h-1 w-1/3 rounded-full bg-muted" />
+          {[0, 1, 2].map((section) => (
+            <div key={section} className="space-y-1">
+              <Heading />
+              <div className="h-px bg-foreground/30" />
+              <Lines count={2} />
+            </div>
+          ))}
+        </div>
+      );
+    case "letter":
+      return (
+        <div className="space-y-2 p-3">
+          <Lines count={2} className="ml-auto w-1/3" />
+          <Lines count={3} className="w-1/3" />
+          <div className="h-1 w-1/4 rounded-full bg-foreground/40" />
+          <Lines count={5} />
+          <Lines count={2} className="w-1/3" />
+        </div>
+      );
+    case "paper":
+      return (
+        <div className="space-y-2 p-3">
+          <div className="mx-auto h-1.5 w-2/3 rounded-full bg-foreground/50" />
+          <div className="mx-auto h-1 w-1/3 rounded-full bg-muted" />
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Lines count={4} />
+              <Heading className="w-1/2" />
+              <Lines count={5} />
+            </div>
+            <div className="space-y-2">
+              <div className="h-6 rounded-sm bg-muted" />
+              <Lines count={6} />
+            </div>
+          </div>
+        </div>
+      );
+    case "report":
+    case "thesis":
+      return (
+        <div className="flex h-full flex-col items-center justify-center gap-1.5 p-3">
+          {layout === "thesis" && <div className="mb-2 h-4 w-4 rounded-full bg-primary/50" />}
+          <div className="h-2 w-3/4 rounded-full bg-foreground/50" />
+          <div className="h-1 w-1/3 rounded-full bg-muted" />
+          <div className="h-1 w-1/4 rounded-full bg-muted" />
+        </div>
+      );
+    default:
+      return (
+        <div className="space-y-2 p-3">
+          <div className="mx-auto h-2 w-2/3 rounded-full bg-foreground/50" />
+          <div className="mx-auto h-1 w-1/3 rounded-full bg-muted" />
+          <Lines count={3} className="px-3" />
+          <Heading />
+          <Lines count={5} />
+        </div>
+      );
+  }
+}
+
+// A schematic first page of a template, drawn without compiling it
+const TemplateThumbnail = ({ layout, className }: { layout: TemplateLayout; className?: string }) => (
+  <div
+    className={cn(
+      "overflow-hidden rounded-sm border border-border bg-background shadow-sm",
+      layout === "slides" ? "aspect-video" : "aspect-[1/1.414]",
+      className,
+    )}
+    aria-hidden
+  >
+    {renderPage(layout)}
+  </div>
+);
+
+export default TemplateThumbnail;
@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+
+// Object URL for an uploaded asset, revoked once it is no longer shown. The
+// URL is null while the asset downloads.
+export function useAssetUrl(storagePath: string | undefined, read: (storagePath: string) => Promise<Blob>) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setUrl(null);
+    setFailed(false);
+    if (!storagePath) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    read(storagePath)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to load asset:", error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [read, storagePath]);
+
+  return { url, failed };
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from "react";
+import { DEFAULT_LATEX } from "@/lib/latex";
+import { type Draft, type DraftDocument, dismissDrafts, getDraftSessionId, listDrafts, saveDraft } from "@/lib/drafts";
+
+// Short enough that a crash loses at most a few keystrokes
+const DRAFT_SAVE_DELAY_MS = 300;
+
+// Keeps the scratch document in local drafts. On load, this tab's own draft
+// (i.e. after a reload) is restored right away; newer drafts left by other
+// tabs are returned as `recoverable` so the user can pick one or discard them.
+export function useDrafts(enabled: boolean, document: DraftDocument, onRestore: (document: DraftDocument) => void) {
+  const [isReady, setIsReady] = useState(false);
+  const [recoverable, setRecoverable] = useState<Draft[]>([]);
+  const sessionIdRef = useRef<string | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    setIsReady(false);
+    setRecoverable([]);
+    if (!enabled) return;
+
+    let cancelled = false;
+    const sessionId = getDraftSessionId();
+    sessionIdRef.current = sessionId;
+    listDrafts()
+      .then((drafts) => {
+        if (cancelled) return;
+        const own = drafts.find((draft) => draft.sessionId === sessionId);
+        if (own) onRestoreRef.current({ latex: own.latex, engine: own.engine });
+
+        const restored = own?.latex ?? DEFAULT_LATEX;
+        setRecoverable(
+          drafts.filter(
+            (draft) =>
+              draft.sessionId !== sessionId &&
+              !draft.dismissed &&
+              draft.updatedAt > (own?.updatedAt ?? 0) &&
+              draft.latex !== restored &&
+              draft.latex !== DEFAULT_LATEX,
+          ),
+        );
+      })
+      .catch((error: unknown) => console.error("Failed to load drafts:", error))
+      .finally(() => {
+        if (!cancelled) setIsReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const { latex, engine } = document;
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (!enabled || !isReady || !sessionId) return;
+    const timer = setTimeout(() => {
+      saveDraft(sessionId, { latex, engine }).catch((error: unknown) => console.error("Failed to save draft:", error));
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, engine, isReady, latex]);
+
+  const settle = () => {
+    const ids = recoverable.map((draft) => draft.id);
+    setRecoverable([]);
+    dismissDrafts(ids).catch((error: unknown) => console.error("Failed to dismiss drafts:", error));
+  };
+
+  // Restores the draft into this tab; the other tabs' drafts stay in the
+  // history but are not offered again.
+  const recover = (draft: Draft) => {
+    onRestoreRef.current({ latex: draft.latex, engine: draft.engine });
+    settle();
+  };
+
+  return { recoverable, recover, discard: settle };
+}
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { TexEngine } from "@/lib/latex";
+import {
+  blobToBase64,
+  deleteProjectFiles,
+  downloadProjectAsset,
+  getProject,
+  type Project,
+  renameProjectPath,
+  saveProjectFile,
+  updateProject,
+  uploadProjectAsset,
+} from "@/lib/projects";
+import { isWithin, movePath } from "@/lib/project-tree";
+
+// Idle time after the last edit before changes are saved
+const AUTOSAVE_DELAY_MS = 1500;
+
+export type SaveStatus = "saved" | "unsaved" | "saving" | "error";
+
+// Contents by path
+type FileContents = Record<string, string>;
+
+// An uploaded binary file; its bytes are only downloaded when needed
+export interface ProjectAsset {
+  storagePath: string;
+  size: number;
+}
+
+interface SavedState {
+  files: FileContents;
+  engine: TexEngine;
+}
+
+function mapPaths<T>(files: Record<string, T>, map: (path: string) => string | null): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const [path, content] of Object.entries(files)) {
+    const mapped = map(path);
+    if (mapped !== null) result[mapped] = content;
+  }
+  return result;
+}
+
+// Loads a saved project's files and autosaves edits and engine changes once
+// typing pauses. Creating, uploading, renaming and deleting files is written
+// through immediately and throws on failure. Pass no id to work without a
+// project.
+export function useProject(projectId: string | undefined, engine: TexEngine, onLoad: (project: Project) => void) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [files, setFiles] = useState<FileContents>({});
+  const [assets, setAssets] = useState<Record<string, ProjectAsset>>({});
+  // Folders without files yet; the others are implied by file paths
+  const [folders, setFolders] = useState<string[]>([]);
+  // Last state written to the database
+  const [saved, setSaved] = useState<SavedState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const savingRef = useRef<Promise<void> | null>(null);
+  // Downloads by storage path; objects are never overwritten, so they can be
+  // kept for as long as the project is open
+  const blobsRef = useRef(new Map<string, Promise<Blob>>());
+  const base64Ref = useRef(new Map<string, Promise<string>>());
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  useEffect(() => {
+    setProject(null);
+    setFiles({});
+    setAssets({});
+    blobsRef.current.clear();
+    base64Ref.current.clear();
+    setFolders([]);
+    setSaved(null);
+    setSaveError(null);
+    setLoadError(null);
+    if (!projectId) return;
+
+    let cancelled = false;
+    getProject(projectId)
+      .then(({ project, files }) => {
+        if (cancelled) return;
+        const contents: FileContents = {};
+        const uploaded: Record<string, ProjectAsset> = {};
+        for (const file of files) {
+          if (file.storage_path) uploaded[file.path] = { storagePath: file.storage_path, size: file.size_bytes };
+          else contents[file.path] = file.content;
+        }
+        setProject(project);
+        setFiles(contents);
+        setAssets(uploaded);
+        setSaved({ files: contents, engine: project.engine as TexEngine });
+        onLoadRef.current(project);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Failed to load project");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const dirtyPaths = useMemo(
+    () => (saved ? Object.keys(files).filter((path) => files[path] !== saved.files[path]) : []),
+    [files, saved],
+  );
+  const isDirty = !!saved && (dirtyPaths.length > 0 || saved.engine !== engine);
+
+  const save = useCallback(() => {
+    if (!project || !saved) return Promise.resolve();
+    const contents = Object.fromEntries(dirtyPaths.map((path) => [path, files[path]]));
+    const savedEngine = engine;
+
+    const run = (async () => {
+      setIsSaving(true);
+      try {
+        for (const [path, content] of Object.entries(contents)) {
+          await saveProjectFile(project.id, path, content);
+        }
+        if (savedEngine !== saved.engine) await updateProject(project.id, { engine: savedEngine });
+        setSaved((current) => current && { files: { ...current.files, ...contents }, engine: savedEngine });
+        setSaveError(null);
+      } catch (error: unknown) {
+        setSaveError(error instanceof Error ? error.message : "Failed to save project");
+      } finally {
+        setIsSaving(false);
+        savingRef.current = null;
+      }
+    })();
+    savingRef.current = run;
+    return run;
+  }, [dirtyPaths, engine, files, project, saved]);
+
+  // Edits made while a save is in flight are picked up by the next one;
+  // failed saves are retried after the same delay.
+  useEffect(() => {
+    if (!isDirty || isSaving) return;
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isDirty, isSaving, save]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [isDirty]);
+
+  const status: SaveStatus = isSaving ? "saving" : saveError ? "error" : isDirty ? "unsaved" : "saved";
+
+  const setFileContent = (path: string, content: string) => {
+    setFiles((current) => ({ ...current, [path]: content }));
+  };
+
+  const exists = (path: string) =>
+    [...Object.keys(files), ...Object.keys(assets), ...folders].some((existing) => isWithin(existing, path));
+
+  // Failed downloads are dropped from the cache, so they are retried
+  const readAsset = useCallback((storagePath: string) => {
+    let blob = blobsRef.current.get(storagePath);
+    if (!blob) {
+      blob = downloadProjectAsset(storagePath);
+      blobsRef.current.set(storagePath, blob);
+      blob.catch(() => blobsRef.current.delete(storagePath));
+    }
+    return blob;
+  }, []);
+
+  // Base64 content for the latex-convert function
+  const readAssetBase64 = useCallback(
+    (storagePath: string) => {
+      let content = base64Ref.current.get(storagePath);
+      if (!content) {
+        content = readAsset(storagePath).then(blobToBase64);
+        base64Ref.current.set(storagePath, content);
+        content.catch(() => base64Ref.current.delete(storagePath));
+      }
+      return content;
+    },
+    [readAsset],
+  );
+
+  // Structural changes wait for a save in flight, so it cannot write a file
+  // back under a path that was just renamed or deleted.
+  const settled = () => savingRef.current ?? Promise.resolve();
+
+  const createFile = async (path: string, content = "") => {
+    if (!project) return;
+    if (exists(path)) throw new Error(`${path} already exists`);
+    await saveProjectFile(project.id, path, content);
+    setFiles((current) => ({ ...current, [path]: content }));
+    setSaved((current) => current && { ...current, files: { ...current.files, [path]: content } });
+  };
+
+  const uploadAsset = async (path: string, file: File) => {
+    if (!project) return;
+    if (exists(path)) throw new Error(`${path} already exists`);
+    const { storage_path, size_bytes } = await uploadProjectAsset(project.id, path, file);
+    blobsRef.current.set(storage_path, Promise.resolve(file));
+    setAssets((current) => ({ ...current, [path]: { storagePath: storage_path, size: size_bytes } }));
+  };
+
+  const createFolder = (path: string) => {
+    if (exists(path)) throw new Error(`${path} already exists`);
+    setFolders((current) => [...current, path]);
+  };
+
+  const renamePath = async (from: string, to: string) => {
+    if (!project || from === to) return;
+    if (isWithin(to, from)) throw new Error("A folder cannot be moved into itself");
+    if (exists(to)) throw new Error(`${to} already exists`);
+    await settled();
+    await renameProjectPath(project.id, from, to);
+
+    const move = (path: string) => movePath(path, from, to);
+    setFiles((current) => mapPaths(current, move));
+    setAssets((current) => mapPaths(current, move));
+    setSaved((current) => current && { ...current, files: mapPaths(current.files, move) });
+    setFolders((current) => current.map(move));
+    setProject((current) => current && { ...current, main_file: move(current.main_file) });
+  };
+
+  const deletePath = async (path: string) => {
+    if (!project) return;
+    if (isWithin(project.main_file, path)) throw new Error("The main file cannot be deleted");
+    await settled();
+    const paths = [...Object.keys(files), ...Object.keys(assets)].filter((file) => isWithin(file, path));
+    if (paths.length > 0) await deleteProjectFiles(project.id, paths);
+
+    const keep = (file: string) => (isWithin(file, path) ? null : file);
+    setFiles((current) => mapPaths(current, keep));
+    setAssets((current) => mapPaths(current, keep));
+    setSaved((current) => current && { ...current, files: mapPaths(current.files, keep) });
+    setFolders((current) => current.filter((folder) => !isWithin(folder, path)));
+  };
+
+  const setMainFile = async (path: string) => {
+    if (!project) return;
+    await updateProject(project.id, { main_file: path });
+    setProject((current) => current && { ...current, main_file: path });
+  };
+
+  return {
+    project,
+    loadError,
+    files,
+    assets,
+    folders,
+    status,
+    saveError,
+    save,
+    setFileContent,
+    createFile,
+    uploadAsset,
+    readAsset,
+    readAssetBase64,
+    createFolder,
+    renamePath,
+    deletePath,
+    setMainFile,
+  };
+}
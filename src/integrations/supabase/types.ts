@@ -14,16 +14,567 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      api_keys: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          label: string
+          last_used_at: string | null
+          owner_id: string
+          revoked_at: string | null
+          rotated_from: string | null
+          scopes: string[]
+          webhook_secret: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          label: string
+          last_used_at?: string | null
+          owner_id: string
+          revoked_at?: string | null
+          rotated_from?: string | null
+          scopes?: string[]
+          webhook_secret: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          label?: string
+          last_used_at?: string | null
+          owner_id?: string
+          revoked_at?: string | null
+          rotated_from?: string | null
+          scopes?: string[]
+          webhook_secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_rotated_from_fkey"
+            columns: ["rotated_from"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compile_batches: {
+        Row: {
+          created_at: string
+          engine: string
+          error: string | null
+          expires_at: string
+          failed: number
+          finished_at: string | null
+          id: string
+          items: Json
+          key_id: string | null
+          output: string
+          output_path: string | null
+          owner_id: string | null
+          progress: number
+          status: Database["public"]["Enums"]["compile_job_status"]
+          succeeded: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          engine: string
+          error?: string | null
+          expires_at?: string
+          failed?: number
+          finished_at?: string | null
+          id?: string
+          items?: Json
+          key_id?: string | null
+          output: string
+          output_path?: string | null
+          owner_id?: string | null
+          progress?: number
+          status?: Database["public"]["Enums"]["compile_job_status"]
+          succeeded?: number
+          total: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          engine?: string
+          error?: string | null
+          expires_at?: string
+          failed?: number
+          finished_at?: string | null
+          id?: string
+          items?: Json
+          key_id?: string | null
+          output?: string
+          output_path?: string | null
+          owner_id?: string | null
+          progress?: number
+          status?: Database["public"]["Enums"]["compile_job_status"]
+          succeeded?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compile_batches_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compile_cache: {
+        Row: {
+          created_at: string
+          diagnostics: Json | null
+          expires_at: string
+          key: string
+          last_hit_at: string
+          pdf_path: string
+          size_bytes: number
+          synctex_path: string | null
+        }
+        Insert: {
+          created_at?: string
+          diagnostics?: Json | null
+          expires_at: string
+          key: string
+          last_hit_at?: string
+          pdf_path: string
+          size_bytes: number
+          synctex_path?: string | null
+        }
+        Update: {
+          created_at?: string
+          diagnostics?: Json | null
+          expires_at?: string
+          key?: string
+          last_hit_at?: string
+          pdf_path?: string
+          size_bytes?: number
+          synctex_path?: string | null
+        }
+        Relationships: []
+      }
+      compile_events: {
+        Row: {
+          backend: string
+          cache_hit: boolean
+          created_at: string
+          duration_ms: number
+          engine: string
+          id: string
+          input_bytes: number
+          key_id: string | null
+          outcome: string
+          output_bytes: number | null
+          owner_id: string | null
+          page_count: number | null
+        }
+        Insert: {
+          backend: string
+          cache_hit?: boolean
+          created_at?: string
+          duration_ms: number
+          engine: string
+          id?: string
+          input_bytes: number
+          key_id?: string | null
+          outcome: string
+          output_bytes?: number | null
+          owner_id?: string | null
+          page_count?: number | null
+        }
+        Update: {
+          backend?: string
+          cache_hit?: boolean
+          created_at?: string
+          duration_ms?: number
+          engine?: string
+          id?: string
+          input_bytes?: number
+          key_id?: string | null
+          outcome?: string
+          output_bytes?: number | null
+          owner_id?: string | null
+          page_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compile_events_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compile_jobs: {
+        Row: {
+          bbl_path: string | null
+          callback_url: string | null
+          created_at: string
+          diagnostics: Json | null
+          engine: string
+          error: string | null
+          expires_at: string
+          finished_at: string | null
+          id: string
+          key_id: string | null
+          log_path: string | null
+          log_tail: string | null
+          main_file: string
+          owner_id: string | null
+          pdf_path: string | null
+          progress: number
+          status: Database["public"]["Enums"]["compile_job_status"]
+          synctex_path: string | null
+          updated_at: string
+        }
+        Insert: {
+          bbl_path?: string | null
+          callback_url?: string | null
+          created_at?: string
+          diagnostics?: Json | null
+          engine: string
+          error?: string | null
+          expires_at?: string
+          finished_at?: string | null
+          id?: string
+          key_id?: string | null
+          log_path?: string | null
+          log_tail?: string | null
+          main_file: string
+          owner_id?: string | null
+          pdf_path?: string | null
+          progress?: number
+          status?: Database["public"]["Enums"]["compile_job_status"]
+          synctex_path?: string | null
+          updated_at?: string
+        }
+        Update: {
+          bbl_path?: string | null
+          callback_url?: string | null
+          created_at?: string
+          diagnostics?: Json | null
+          engine?: string
+          error?: string | null
+          expires_at?: string
+          finished_at?: string | null
+          id?: string
+          key_id?: string | null
+          log_path?: string | null
+          log_tail?: string | null
+          main_file?: string
+          owner_id?: string | null
+          pdf_path?: string | null
+          progress?: number
+          status?: Database["public"]["Enums"]["compile_job_status"]
+          synctex_path?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compile_jobs_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compile_quotas: {
+        Row: {
+          monthly_compile_limit: number | null
+          monthly_compile_seconds_limit: number | null
+          owner_id: string
+        }
+        Insert: {
+          monthly_compile_limit?: number | null
+          monthly_compile_seconds_limit?: number | null
+          owner_id: string
+        }
+        Update: {
+          monthly_compile_limit?: number | null
+          monthly_compile_seconds_limit?: number | null
+          owner_id?: string
+        }
+        Relationships: []
+      }
+      compile_usage: {
+        Row: {
+          compile_count: number
+          compile_seconds: number
+          owner_id: string
+          period_start: string
+        }
+        Insert: {
+          compile_count?: number
+          compile_seconds?: number
+          owner_id: string
+          period_start: string
+        }
+        Update: {
+          compile_count?: number
+          compile_seconds?: number
+          owner_id?: string
+          period_start?: string
+        }
+        Relationships: []
+      }
+      project_files: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          path: string
+          project_id: string
+          size_bytes: number
+          storage_path: string | null
+          updated_at: string
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          id?: string
+          path: string
+          project_id: string
+          size_bytes?: number
+          storage_path?: string | null
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          path?: string
+          project_id?: string
+          size_bytes?: number
+          storage_path?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_files_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          created_at: string
+          engine: string
+          id: string
+          main_file: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          engine?: string
+          id?: string
+          main_file?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          engine?: string
+          id?: string
+          main_file?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rate_limit_buckets: {
+        Row: {
+          bucket: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          bucket: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          bucket?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      templates: {
+        Row: {
+          category: string
+          created_at: string
+          description: string
+          engine: string
+          files: Json
+          id: string
+          layout: string
+          main_file: string
+          name: string
+          owner_id: string
+          shared: boolean
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          description?: string
+          engine?: string
+          files: Json
+          id?: string
+          layout?: string
+          main_file?: string
+          name: string
+          owner_id: string
+          shared?: boolean
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          description?: string
+          engine?: string
+          files?: Json
+          id?: string
+          layout?: string
+          main_file?: string
+          name?: string
+          owner_id?: string
+          shared?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempt: number
+          created_at: string
+          delivery_id: string
+          error: string | null
+          id: number
+          job_id: string
+          response_excerpt: string | null
+          status_code: number | null
+          success: boolean
+          url: string
+        }
+        Insert: {
+          attempt: number
+          created_at?: string
+          delivery_id: string
+          error?: string | null
+          id?: never
+          job_id: string
+          response_excerpt?: string | null
+          status_code?: number | null
+          success: boolean
+          url: string
+        }
+        Update: {
+          attempt?: number
+          created_at?: string
+          delivery_id?: string
+          error?: string | null
+          id?: never
+          job_id?: string
+          response_excerpt?: string | null
+          status_code?: number | null
+          success?: boolean
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "compile_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      compile_usage_daily: {
+        Args: {
+          p_from: string
+          p_key_id?: string
+          p_time_zone?: string
+          p_to: string
+        }
+        Returns: {
+          cache_hits: number
+          compiles: number
+          day: string
+          failures: number
+          p50_ms: number
+          p95_ms: number
+        }[]
+      }
+      consume_rate_limit: {
+        Args: {
+          p_bucket: string
+          p_capacity: number
+          p_cost?: number
+          p_refill_per_second: number
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          reset_seconds: number
+        }[]
+      }
+      duplicate_project: {
+        Args: {
+          p_name: string
+          p_project_id: string
+        }
+        Returns: string
+      }
+      record_compile_usage: {
+        Args: {
+          p_owner_id: string
+          p_period_start: string
+          p_seconds: number
+        }
+        Returns: undefined
+      }
+      rename_project_path: {
+        Args: {
+          p_from: string
+          p_project_id: string
+          p_to: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      compile_job_status: "queued" | "running" | "succeeded" | "failed" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +701,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      compile_job_status: ["queued", "running", "succeeded", "failed", "cancelled"],
+    },
   },
 } as const
@@ -0,0 +1,106 @@
+// API key management. Keys are generated in the browser and only their
+// SHA-256 hash is stored; the latex-convert function verifies against it.
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ApiKey = Omit<Tables<"api_keys">, "key_hash">;
+
+export const API_KEY_SCOPES = [
+  { value: "compile", label: "Compile", description: "Compile documents" },
+  { value: "jobs:read", label: "Read jobs", description: "Read job status and webhook deliveries" },
+  { value: "projects:write", label: "Create projects", description: "Create saved projects from uploaded files" },
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]["value"];
+
+export interface NewApiKey {
+  label: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+}
+
+const API_KEY_COLUMNS =
+  "id, owner_id, label, key_prefix, scopes, webhook_secret, rotated_from, created_at, last_used_at, expires_at, revoked_at";
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function randomBase64Url(byteLength: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+}
+
+// Format: ltx_<8 hex chars>_<secret>. The prefix identifies the key row.
+function generateApiKey(): { key: string; prefix: string } {
+  const prefix = `ltx_${toHex(crypto.getRandomValues(new Uint8Array(4)))}`;
+  return { key: `${prefix}_${randomBase64Url(32)}`, prefix };
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select(API_KEY_COLUMNS)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+// Returns the plaintext key, which cannot be retrieved again later.
+export async function createApiKey(
+  { label, scopes, expiresAt }: NewApiKey,
+  rotatedFrom: string | null = null,
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+
+  const { key, prefix } = generateApiKey();
+  const { data, error } = await supabase
+    .from("api_keys")
+    .insert({
+      owner_id: userData.user.id,
+      label,
+      key_prefix: prefix,
+      key_hash: await sha256Hex(key),
+      scopes,
+      webhook_secret: randomBase64Url(32),
+      expires_at: expiresAt,
+      rotated_from: rotatedFrom,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+  if (error) throw error;
+
+  return { key, apiKey: data };
+}
+
+export async function renameApiKey(id: string, label: string): Promise<void> {
+  const { error } = await supabase.from("api_keys").update({ label }).eq("id", id);
+  if (error) throw error;
+}
+
+export async function revokeApiKey(id: string): Promise<void> {
+  const { error } = await supabase.from("api_keys").update({ revoked_at: new Date().toISOString() }).eq("id", id);
+  if (error) throw error;
+}
+
+// Issues a replacement with the same label, scopes and expiry, then revokes
+// the old key.
+export async function rotateApiKey(apiKey: ApiKey): Promise<{ key: string; apiKey: ApiKey }> {
+  const replacement = await createApiKey(
+    { label: apiKey.label, scopes: apiKey.scopes as ApiKeyScope[], expiresAt: apiKey.expires_at },
+    apiKey.id,
+  );
+  await revokeApiKey(apiKey.id);
+  return replacement;
+}
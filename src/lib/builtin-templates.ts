@@ -0,0 +1,308 @@
+// Templates that ship with the app. Placeholders like {{title}} become
+// fill-in fields in the template gallery.
+import { MAIN_FILE } from "@/lib/latex";
+import type { Template } from "@/lib/templates";
+
+export const BUILT_IN_TEMPLATES: Template[] = [
+  {
+    id: "article",
+    name: "Article",
+    description: "A short paper with an abstract and sections",
+    category: "Documents",
+    layout: "article",
+    engine: "pdflatex",
+    mainFile: MAIN_FILE,
+    files: {
+      [MAIN_FILE]: `\\documentclass[11pt]{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage{amsmath}
+\\usepackage{graphicx}
+\\usepackage{hyperref}
+
+\\title{{{title}}}
+\\author{{{author}}}
+\\date{{{date}}}
+
+\\begin{document}
+
+\\maketitle
+
+\\begin{abstract}
+A short summary of the article.
+\\end{abstract}
+
+\\section{Introduction}
+Start writing here.
+
+\\section{Conclusion}
+
+\\end{document}
+`,
+    },
+  },
+  {
+    id: "report",
+    name: "Report",
+    description: "A longer document with chapters and a table of contents",
+    category: "Documents",
+    layout: "report",
+    engine: "pdflatex",
+    mainFile: MAIN_FILE,
+    files: {
+      [MAIN_FILE]: `\\documentclass[11pt]{report}
+\\usepackage[utf8]{inputenc}
+\\usepackage{amsmath}
+\\usepackage{graphicx}
+\\usepackage{hyperref}
+
+\\title{{{title}}}
+\\author{{{author}}}
+\\date{{{date}}}
+
+\\begin{document}
+
+\\maketitle
+\\tableofcontents
+
+\\chapter{Introduction}
+Start writing here.
+
+\\chapter{Results}
+
+\\chapter{Conclusion}
+
+\\end{document}
+`,
+    },
+  },
+  {
+    id: "thesis",
+    name: "Thesis",
+    description: "A book-style thesis with one file per chapter and a bibliography",
+    category: "Documents",
+    layout: "thesis",
+    engine: "pdflatex",
+    mainFile: "main.tex",
+    files: {
+      "main.tex": `\\documentclass[12pt,oneside]{book}
+\\usepackage[utf8]{inputenc}
+\\usepackage{amsmath}
+\\usepackage{graphicx}
+\\usepackage{hyperref}
+
+\\title{{{title}}}
+\\author{{{author}}}
+\\date{{{date}}}
+
+\\begin{document}
+
+\\frontmatter
+\\maketitle
+\\tableofcontents
+
+\\mainmatter
+\\include{chapters/introduction}
+\\include{chapters/conclusion}
+
+\\backmatter
+\\bibliographystyle{plain}
+\\bibliography{references}
+
+\\end{document}
+`,
+      "chapters/introduction.tex": `\\chapter{Introduction}
+Start writing here, and cite sources like \\cite{knuth1984}.
+`,
+      "chapters/conclusion.tex": `\\chapter{Conclusion}
+`,
+      "references.bib": `@book{knuth1984,
+  title = {The TeXbook},
+  author = {Knuth, Donald E.},
+  year = {1984},
+  publisher = {Addison-Wesley}
+}
+`,
+    },
+  },
+  {
+    id: "beamer",
+    name: "Beamer Slides",
+    description: "A 16:9 presentation with a title slide and outline",
+    category: "Presentations",
+    layout: "slides",
+    engine: "pdflatex",
+    mainFile: MAIN_FILE,
+    files: {
+      [MAIN_FILE]: `\\documentclass[aspectratio=169]{beamer}
+\\usetheme{Madrid}
+
+\\title{{{title}}}
+\\author{{{author}}}
+\\date{{{date}}}
+
+\\begin{document}
+
+\\begin{frame}
+  \\titlepage
+\\end{frame}
+
+\\begin{frame}{Outline}
+  \\tableofcontents
+\\end{frame}
+
+\\section{Introduction}
+\\begin{frame}{Introduction}
+  \\begin{itemize}
+    \\item First point
+    \\item Second point
+  \\end{itemize}
+\\end{frame}
+
+\\end{document}
+`,
+    },
+  },
+  {
+    id: "ieee",
+    name: "IEEE Conference Paper",
+    description: "Two-column paper using the IEEEtran class",
+    category: "Papers",
+    layout: "paper",
+    engine: "pdflatex",
+    mainFile: MAIN_FILE,
+    files: {
+      [MAIN_FILE]: `\\documentclass[conference]{IEEEtran}
+\\usepackage{amsmath}
+\\usepackage{graphicx}
+\\usepackage{cite}
+
+\\begin{document}
+
+\\title{{{title}}}
+\\author{\\IEEEauthorblockN{{{author}}}
+\\IEEEauthorblockA{{{affiliation}}}}
+
+\\maketitle
+
+\\begin{abstract}
+A short summary of the paper.
+\\end{abstract}
+
+\\begin{IEEEkeywords}
+first keyword, second keyword
+\\end{IEEEkeywords}
+
+\\section{Introduction}
+Start writing here.
+
+\\section{Conclusion}
+
+\\end{document}
+`,
+    },
+  },
+  {
+    id: "acm",
+    name: "ACM Paper",
+    description: "Conference paper using the acmart class (sigconf)",
+    category: "Papers",
+    layout: "paper",
+    engine: "pdflatex",
+    mainFile: MAIN_FILE,
+    files: {
+      [MAIN_FILE]: `\\documentclass[sigconf]{acmart}
+
+\\begin{document}
+
+\\title{{{title}}}
+\\author{{{author}}}
+\\affiliation{\\institution{{{affiliation}}}\\country{}}
+
+\\begin{abstract}
+A short summary of the paper.
+\\end{abstract}
+
+\\maketitle
+
+\\section{Introduction}
+Start writing here.
+
+\\section{Conclusion}
+
+\\end{document}
+`,
+    },
+  },
+  {
+    id: "cv",
+    name: "CV",
+    description: "A one-page résumé with experience, education and skills",
+    category: "Personal",
+    layout: "cv",
+    engine: "pdflatex",
+    mainFile: MAIN_FILE,
+    files: {
+      [MAIN_FILE]: `\\documentclass[11pt]{article}
+\\usepackage[margin=2cm]{geometry}
+\\usepackage{enumitem}
+\\usepackage{hyperref}
+\\setlength{\\parindent}{0pt}
+\\pagestyle{empty}
+
+\\newcommand{\\cvsection}[1]{\\vspace{1em}{\\Large\\bfseries #1}\\par\\hrule\\vspace{0.5em}}
+
+\\begin{document}
+
+{\\Huge\\bfseries {{author}}}\\par
+\\vspace{0.3em}
+{{email}}\\par
+
+\\cvsection{Experience}
+\\textbf{Job title}, Company \\hfill 2020 -- present
+\\begin{itemize}[leftmargin=*]
+  \\item What you achieved
+\\end{itemize}
+
+\\cvsection{Education}
+\\textbf{Degree}, University \\hfill 2016 -- 2020
+
+\\cvsection{Skills}
+Languages, tools and other skills.
+
+\\end{document}
+`,
+    },
+  },
+  {
+    id: "letter",
+    name: "Letter",
+    description: "A formal letter with addresses, opening and closing",
+    category: "Personal",
+    layout: "letter",
+    engine: "pdflatex",
+    mainFile: MAIN_FILE,
+    files: {
+      [MAIN_FILE]: `\\documentclass[11pt]{letter}
+\\usepackage[utf8]{inputenc}
+
+\\signature{{{author}}}
+\\address{Your street \\\\ Your city}
+\\date{{{date}}}
+
+\\begin{document}
+
+\\begin{letter}{{{recipient}} \\\\ Their street \\\\ Their city}
+
+\\opening{Dear {{recipient}},}
+
+Write your letter here.
+
+\\closing{Yours sincerely,}
+
+\\end{letter}
+
+\\end{document}
+`,
+    },
+  },
+];
@@ -0,0 +1,107 @@
+// Local drafts of the scratch editor, kept in IndexedDB so work survives a
+// closed tab or crash without an account. Every tab writes under its own
+// session id; a draft is a revision that keeps being updated until it is
+// REVISION_INTERVAL_MS old, after which the next change starts a new one.
+import type { TexEngine } from "@/lib/latex";
+
+const DB_NAME = "latex-to-pdf";
+const DB_VERSION = 1;
+const STORE = "drafts";
+const SESSION_KEY = "latex-to-pdf:draft-session";
+
+const REVISION_INTERVAL_MS = 5 * 60 * 1000;
+// Revisions kept across all sessions; older ones are pruned on save
+const MAX_REVISIONS = 20;
+
+export interface Draft {
+  id: number;
+  sessionId: string;
+  latex: string;
+  engine: TexEngine;
+  createdAt: number;
+  updatedAt: number;
+  // Set once the user declined to recover it in another tab
+  dismissed: boolean;
+}
+
+export type DraftDocument = Pick<Draft, "latex" | "engine">;
+
+// Survives reloads of the same tab but not closing it
+export function getDraftSessionId(): string {
+  let id = sessionStorage.getItem(SESSION_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, id);
+  }
+  return id;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> {
+  const transaction = (await openDatabase()).transaction(STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await run(transaction.objectStore(STORE));
+  await done;
+  return result;
+}
+
+// Newest first
+export async function listDrafts(): Promise<Draft[]> {
+  const drafts = await withStore("readonly", (store) => settle(store.getAll() as IDBRequest<Draft[]>));
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveDraft(sessionId: string, { latex, engine }: DraftDocument): Promise<void> {
+  const now = Date.now();
+  await withStore("readwrite", async (store) => {
+    const drafts = ((await settle(store.getAll())) as Draft[]).sort((a, b) => b.updatedAt - a.updatedAt);
+    const current = drafts.find((draft) => draft.sessionId === sessionId);
+    if (current && current.latex === latex && current.engine === engine) return;
+
+    if (current && now - current.createdAt < REVISION_INTERVAL_MS) {
+      await settle(store.put({ ...current, latex, engine, updatedAt: now }));
+    } else {
+      await settle(store.add({ sessionId, latex, engine, createdAt: now, updatedAt: now, dismissed: false }));
+      // The new revision is the newest, so one fewer existing one fits
+      for (const draft of drafts.slice(MAX_REVISIONS - 1)) {
+        await settle(store.delete(draft.id));
+      }
+    }
+  });
+}
+
+export async function dismissDrafts(ids: number[]): Promise<void> {
+  await withStore("readwrite", async (store) => {
+    for (const id of ids) {
+      const draft = (await settle(store.get(id))) as Draft | undefined;
+      if (draft) await settle(store.put({ ...draft, dismissed: true }));
+    }
+  });
+}
@@ -0,0 +1,180 @@
+// Context-aware completion for the LaTeX editor: commands and environments
+// from the bundled dictionary, filtered by the packages the project loads,
+// plus \ref labels and \cite keys scanned from the project sources.
+import {
+  type Completion,
+  type CompletionContext,
+  type CompletionResult,
+  snippet,
+  snippetCompletion,
+} from "@codemirror/autocomplete";
+import { type EditorState, Facet } from "@codemirror/state";
+import { BASE_COMPLETIONS, type CompletionSet, PACKAGE_COMPLETIONS } from "@/lib/latex-dictionary";
+import { findEnvironments } from "@/lib/latex-editor";
+
+// Contents of the project's other files (e.g. included .tex and .bib files),
+// scanned for labels, cite keys and packages alongside the open document.
+export const projectSources = Facet.define<() => string[]>();
+
+const REFERENCE_ARGUMENT = /\\(?:ref|eqref|pageref|autoref|nameref|cref|Cref)\{[^{}]*$/;
+const CITE_ARGUMENT = /\\(?:no|paren|text|auto|foot)?cite(?:[tp]|author|year)?\*?(?:\[[^\]]*\]){0,2}\{[^{}]*$/;
+const PACKAGE_ARGUMENT = /\\(?:usepackage|RequirePackage)(?:\[[^\]]*\])?\{[^{}]*$/;
+const ENVIRONMENT_ARGUMENT = /\\(begin|end)\{[^{}]*$/;
+const COMMAND = /\\[a-zA-Z@]*$/;
+
+function sources(state: EditorState): string[] {
+  return [state.doc.toString(), ...state.facet(projectSources).flatMap((getSources) => getSources())];
+}
+
+function matchAll(texts: string[], pattern: RegExp): string[] {
+  const found = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(pattern)) {
+      for (const value of match[1].split(",")) {
+        if (value.trim()) found.add(value.trim());
+      }
+    }
+  }
+  return [...found];
+}
+
+export function findLabels(texts: string[]): string[] {
+  return matchAll(texts, /\\label\{([^{}]+)\}/g);
+}
+
+export function findCiteKeys(texts: string[]): string[] {
+  return [
+    ...new Set([
+      ...matchAll(texts, /^\s*@(?!comment|string|preamble)\w+\s*\{\s*([^,\s]+)\s*,/gim),
+      ...matchAll(texts, /\\bibitem(?:\[[^\]]*\])?\{([^{}]+)\}/g),
+    ]),
+  ];
+}
+
+export function findPackages(texts: string[]): string[] {
+  return matchAll(texts, /\\(?:usepackage|RequirePackage)(?:\[[^\]]*\])?\{([^{}]+)\}/g);
+}
+
+function completionSets(packages: string[]): { set: CompletionSet; detail?: string }[] {
+  const loaded = packages.filter((name) => PACKAGE_COMPLETIONS[name]);
+  return [{ set: BASE_COMPLETIONS }, ...loaded.map((name) => ({ set: PACKAGE_COMPLETIONS[name], detail: name }))];
+}
+
+function entryName(template: string): string {
+  return /^[a-zA-Z@]+\*?/.exec(template)?.[0] ?? template;
+}
+
+// Shows the arguments of a template, e.g. {numerator}{denominator}
+function entryDetail(template: string, name: string, packageName?: string): string | undefined {
+  const args = template.slice(name.length).replace(/\$\{([^{}]*)\}/g, "$1");
+  return [args, packageName && `(${packageName})`].filter(Boolean).join(" ") || undefined;
+}
+
+// Argument position: the text typed since the last { or comma
+function argumentStart(context: CompletionContext, pattern: RegExp): number | null {
+  const match = context.matchBefore(pattern);
+  if (!match) return null;
+  const offset = Math.max(match.text.lastIndexOf("{"), match.text.lastIndexOf(","));
+  return match.from + offset + 1;
+}
+
+function argumentCompletions(from: number, values: string[], type: string): CompletionResult {
+  return {
+    from,
+    options: values.map((label) => ({ label, type })),
+    validFor: /^[^{},\s]*$/,
+  };
+}
+
+// Environment names are completed inside the braces, which closeBrackets has
+// usually closed already, so the closing brace after the cursor is consumed.
+function environmentCompletions(context: CompletionContext, kind: string, from: number): CompletionResult {
+  const packages = findPackages(sources(context.state));
+  const options: Completion[] = [];
+
+  const closeEnd = (name: string): Completion["apply"] => (view, _completion, applyFrom, to) => {
+    const closing = view.state.sliceDoc(to, to + 1) === "}" ? "" : "}";
+    view.dispatch({
+      changes: { from: applyFrom, to, insert: name + closing },
+      selection: { anchor: applyFrom + name.length + 1 },
+    });
+  };
+
+  let open: string[] = [];
+  if (kind === "end") {
+    // The innermost environment still open at the cursor comes first
+    open = findEnvironments(context.state)
+      .pairs.filter(({ begin, end }) => begin.to <= context.pos && (!end || end.from >= context.pos))
+      .map(({ begin }) => begin.name);
+    open.forEach((name, index) => {
+      options.push({ label: name, type: "type", boost: 99 - (open.length - 1 - index), apply: closeEnd(name) });
+    });
+  }
+
+  for (const { set, detail } of completionSets(packages)) {
+    for (const template of set.environments ?? []) {
+      const name = entryName(template);
+      if (kind === "end") {
+        if (!open.includes(name)) options.push({ label: name, type: "type", detail, apply: closeEnd(name) });
+        continue;
+      }
+
+      const insertSnippet = snippet(`${name}}${template.slice(name.length)}\n\t\${}\n\\end{${name}}`);
+      options.push({
+        label: name,
+        type: "type",
+        detail: entryDetail(template, name, detail),
+        apply: (view, completion, applyFrom, to) => {
+          const closing = view.state.sliceDoc(to, to + 1) === "}" ? 1 : 0;
+          insertSnippet(view, completion, applyFrom, to + closing);
+        },
+      });
+    }
+  }
+
+  return { from, options, validFor: /^[a-zA-Z*]*$/ };
+}
+
+function commandCompletions(context: CompletionContext, from: number): CompletionResult {
+  const packages = findPackages(sources(context.state));
+  const options: Completion[] = [];
+
+  for (const { set, detail } of completionSets(packages)) {
+    for (const template of set.commands ?? []) {
+      const name = entryName(template);
+      options.push(
+        snippetCompletion(`\\${template}`, {
+          label: `\\${name}`,
+          type: "function",
+          detail: entryDetail(template, name, detail),
+        }),
+      );
+    }
+  }
+
+  return { from, options, validFor: /^\\[a-zA-Z@]*$/ };
+}
+
+export function latexCompletionSource(context: CompletionContext): CompletionResult | null {
+  const { state } = context;
+
+  const referenceFrom = argumentStart(context, REFERENCE_ARGUMENT);
+  if (referenceFrom !== null) return argumentCompletions(referenceFrom, findLabels(sources(state)), "variable");
+
+  const citeFrom = argumentStart(context, CITE_ARGUMENT);
+  if (citeFrom !== null) return argumentCompletions(citeFrom, findCiteKeys(sources(state)), "constant");
+
+  const packageFrom = argumentStart(context, PACKAGE_ARGUMENT);
+  if (packageFrom !== null) return argumentCompletions(packageFrom, Object.keys(PACKAGE_COMPLETIONS), "namespace");
+
+  const environment = context.matchBefore(ENVIRONMENT_ARGUMENT);
+  if (environment) {
+    const kind = ENVIRONMENT_ARGUMENT.exec(environment.text)![1];
+    return environmentCompletions(context, kind, environment.from + environment.text.indexOf("{") + 1);
+  }
+
+  const command = context.matchBefore(COMMAND);
+  if (command) return commandCompletions(context, command.from);
+
+  return null;
+}
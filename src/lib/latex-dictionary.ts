@@ -0,0 +1,323 @@
+// Completion dictionary for the editor. Entries are snippet templates without
+// the leading backslash: the text up to the first brace or bracket is the
+// command or environment name, and ${…} marks a tab stop.
+
+export interface CompletionSet {
+  commands?: string[];
+  environments?: string[];
+}
+
+export const BASE_COMPLETIONS: Required<CompletionSet> = {
+  commands: [
+    "documentclass[${options}]{${class}}",
+    "usepackage{${package}}",
+    "title{${title}}",
+    "author{${author}}",
+    "date{${date}}",
+    "today",
+    "maketitle",
+    "tableofcontents",
+    "listoffigures",
+    "listoftables",
+    "appendix",
+    "part{${title}}",
+    "chapter{${title}}",
+    "section{${title}}",
+    "section*{${title}}",
+    "subsection{${title}}",
+    "subsection*{${title}}",
+    "subsubsection{${title}}",
+    "paragraph{${title}}",
+    "subparagraph{${title}}",
+    "label{${key}}",
+    "ref{${key}}",
+    "pageref{${key}}",
+    "cite{${key}}",
+    "nocite{${key}}",
+    "footnote{${text}}",
+    "caption{${text}}",
+    "emph{${text}}",
+    "textbf{${text}}",
+    "textit{${text}}",
+    "texttt{${text}}",
+    "textsc{${text}}",
+    "textrm{${text}}",
+    "textsf{${text}}",
+    "underline{${text}}",
+    "mbox{${text}}",
+    "tiny",
+    "scriptsize",
+    "footnotesize",
+    "small",
+    "normalsize",
+    "large",
+    "Large",
+    "LARGE",
+    "huge",
+    "Huge",
+    "item",
+    "item[${label}]",
+    "newline",
+    "newpage",
+    "clearpage",
+    "linebreak",
+    "pagebreak",
+    "noindent",
+    "centering",
+    "raggedright",
+    "raggedleft",
+    "hspace{${length}}",
+    "vspace{${length}}",
+    "hfill",
+    "vfill",
+    "smallskip",
+    "medskip",
+    "bigskip",
+    "input{${file}}",
+    "include{${file}}",
+    "includeonly{${files}}",
+    "bibliography{${file}}",
+    "bibliographystyle{${style}}",
+    "bibitem{${key}}",
+    "newcommand{\\${name}}[${args}]{${definition}}",
+    "renewcommand{\\${name}}{${definition}}",
+    "newenvironment{${name}}{${begin}}{${end}}",
+    "setlength{\\${length}}{${value}}",
+    "setcounter{${counter}}{${value}}",
+    "pagestyle{${style}}",
+    "thispagestyle{${style}}",
+    "pagenumbering{${style}}",
+    "hline",
+    "cline{${columns}}",
+    "multicolumn{${count}}{${align}}{${text}}",
+    "frac{${numerator}}{${denominator}}",
+    "sqrt{${expression}}",
+    "sqrt[${n}]{${expression}}",
+    "sum_{${from}}^{${to}}",
+    "prod_{${from}}^{${to}}",
+    "int_{${from}}^{${to}}",
+    "lim_{${limit}}",
+    "left(",
+    "right)",
+    "left[",
+    "right]",
+    "cdot",
+    "cdots",
+    "ldots",
+    "times",
+    "infty",
+    "partial",
+    "nabla",
+    "leq",
+    "geq",
+    "neq",
+    "approx",
+    "equiv",
+    "in",
+    "notin",
+    "subset",
+    "subseteq",
+    "cup",
+    "cap",
+    "forall",
+    "exists",
+    "rightarrow",
+    "leftarrow",
+    "Rightarrow",
+    "Leftrightarrow",
+    "mapsto",
+    "alpha",
+    "beta",
+    "gamma",
+    "delta",
+    "epsilon",
+    "varepsilon",
+    "theta",
+    "lambda",
+    "mu",
+    "pi",
+    "sigma",
+    "phi",
+    "omega",
+    "Gamma",
+    "Delta",
+    "Theta",
+    "Lambda",
+    "Sigma",
+    "Phi",
+    "Omega",
+    "mathrm{${text}}",
+    "mathbf{${text}}",
+    "mathit{${text}}",
+    "overline{${expression}}",
+    "hat{${x}}",
+    "bar{${x}}",
+    "vec{${x}}",
+    "dot{${x}}",
+  ],
+  environments: [
+    "document",
+    "abstract",
+    "itemize",
+    "enumerate",
+    "description",
+    "center",
+    "flushleft",
+    "flushright",
+    "quote",
+    "quotation",
+    "verse",
+    "verbatim",
+    "figure[${placement}]",
+    "figure*",
+    "table[${placement}]",
+    "table*",
+    "tabular{${columns}}",
+    "minipage{${width}}",
+    "equation",
+    "equation*",
+    "eqnarray",
+    "array{${columns}}",
+    "math",
+    "displaymath",
+    "thebibliography{${widest}}",
+    "titlepage",
+  ],
+};
+
+// Commands and environments offered once the package is loaded with
+// \usepackage or \RequirePackage.
+export const PACKAGE_COMPLETIONS: Record<string, CompletionSet> = {
+  amsmath: {
+    commands: [
+      "text{${text}}",
+      "dfrac{${numerator}}{${denominator}}",
+      "tfrac{${numerator}}{${denominator}}",
+      "binom{${n}}{${k}}",
+      "eqref{${key}}",
+      "tag{${tag}}",
+      "notag",
+      "operatorname{${name}}",
+      "DeclareMathOperator{\\${name}}{${text}}",
+      "intertext{${text}}",
+      "boxed{${expression}}",
+      "overset{${top}}{${symbol}}",
+      "underset{${bottom}}{${symbol}}",
+    ],
+    environments: [
+      "align",
+      "align*",
+      "gather",
+      "gather*",
+      "multline",
+      "multline*",
+      "split",
+      "aligned",
+      "cases",
+      "matrix",
+      "pmatrix",
+      "bmatrix",
+      "vmatrix",
+    ],
+  },
+  amssymb: {
+    commands: ["mathbb{${letter}}", "mathfrak{${letter}}", "varnothing", "leqslant", "geqslant", "therefore", "because"],
+  },
+  amsthm: {
+    commands: ["newtheorem{${name}}{${title}}", "theoremstyle{${style}}", "qedhere"],
+    environments: ["proof", "theorem", "lemma", "corollary", "definition"],
+  },
+  graphicx: {
+    commands: [
+      "includegraphics[width=${width}]{${file}}",
+      "graphicspath{{${path}}}",
+      "scalebox{${scale}}{${content}}",
+      "rotatebox{${angle}}{${content}}",
+      "resizebox{${width}}{${height}}{${content}}",
+    ],
+  },
+  hyperref: {
+    commands: [
+      "href{${url}}{${text}}",
+      "url{${url}}",
+      "hypersetup{${options}}",
+      "autoref{${key}}",
+      "nameref{${key}}",
+    ],
+  },
+  cleveref: {
+    commands: ["cref{${key}}", "Cref{${key}}", "crefrange{${first}}{${last}}"],
+  },
+  xcolor: {
+    commands: [
+      "textcolor{${color}}{${text}}",
+      "color{${color}}",
+      "colorbox{${color}}{${text}}",
+      "definecolor{${name}}{${model}}{${value}}",
+    ],
+  },
+  geometry: {
+    commands: ["geometry{${options}}", "newgeometry{${options}}", "restoregeometry"],
+  },
+  booktabs: {
+    commands: ["toprule", "midrule", "bottomrule", "cmidrule{${columns}}"],
+  },
+  tabularx: {
+    environments: ["tabularx{${width}}{${columns}}"],
+  },
+  longtable: {
+    commands: ["endhead", "endfirsthead", "endfoot", "endlastfoot"],
+    environments: ["longtable{${columns}}"],
+  },
+  multirow: {
+    commands: ["multirow{${rows}}{${width}}{${text}}"],
+  },
+  listings: {
+    commands: ["lstinline{${code}}", "lstset{${options}}", "lstinputlisting{${file}}"],
+    environments: ["lstlisting"],
+  },
+  minted: {
+    commands: ["mintinline{${language}}{${code}}", "inputminted{${language}}{${file}}"],
+    environments: ["minted{${language}}"],
+  },
+  natbib: {
+    commands: ["citet{${key}}", "citep{${key}}", "citeauthor{${key}}", "citeyear{${key}}"],
+  },
+  biblatex: {
+    commands: [
+      "addbibresource{${file}}",
+      "printbibliography",
+      "parencite{${key}}",
+      "textcite{${key}}",
+      "autocite{${key}}",
+      "footcite{${key}}",
+    ],
+  },
+  tikz: {
+    commands: [
+      "draw ${path};",
+      "fill ${path};",
+      "node[${options}] at (${x},${y}) {${text}};",
+      "usetikzlibrary{${libraries}}",
+      "tikzset{${options}}",
+    ],
+    environments: ["tikzpicture"],
+  },
+  subcaption: {
+    commands: ["subcaption{${text}}", "subref{${key}}"],
+    environments: ["subfigure{${width}}", "subtable{${width}}"],
+  },
+  enumitem: {
+    commands: ["setlist{${options}}"],
+  },
+  siunitx: {
+    commands: ["SI{${value}}{${unit}}", "si{${unit}}", "num{${number}}", "qty{${value}}{${unit}}", "unit{${unit}}"],
+  },
+  fancyhdr: {
+    commands: ["fancyhf{}", "fancyhead[${position}]{${text}}", "fancyfoot[${position}]{${text}}"],
+  },
+  algorithm2e: {
+    commands: ["KwIn{${input}}", "KwOut{${output}}", "KwRet{${value}}", "SetKwFunction{${name}}{${text}}"],
+    environments: ["algorithm"],
+  },
+};
@@ -0,0 +1,238 @@
+// CodeMirror support for LaTeX: syntax highlighting through the legacy stex
+// mode, folding and pair highlighting for \begin{…}/\end{…} environments, and
+// inline markers for compiler diagnostics.
+import { EditorSelection, type EditorState, type Extension, type Range, StateField, type Text } from "@codemirror/state";
+import { type Command, Decoration, EditorView } from "@codemirror/view";
+import { HighlightStyle, StreamLanguage, foldService, syntaxHighlighting } from "@codemirror/language";
+import { type Diagnostic as LintDiagnostic, forEachDiagnostic } from "@codemirror/lint";
+import { stex } from "@codemirror/legacy-modes/mode/stex";
+import { tags } from "@lezer/highlight";
+import type { Diagnostic } from "@/lib/latex";
+
+export interface EnvironmentToken {
+  kind: "begin" | "end";
+  name: string;
+  from: number;
+  to: number;
+}
+
+export interface EnvironmentPair {
+  begin: EnvironmentToken;
+  // Null when the environment is never closed
+  end: EnvironmentToken | null;
+}
+
+interface EnvironmentIndex {
+  pairs: EnvironmentPair[];
+  // \end tokens without a matching \begin
+  unmatched: EnvironmentToken[];
+}
+
+const ENVIRONMENT_TOKEN = /\\(begin|end)\s*\{([^{}\n]*)\}/g;
+
+// Strips comments so commented-out \begin/\end lines are ignored. A % only
+// starts a comment when it is not escaped.
+function stripComment(line: string): string {
+  const match = /(^|[^\\])(\\\\)*%/.exec(line);
+  return match ? line.slice(0, match.index + match[0].length - 1) : line;
+}
+
+export function findEnvironments(state: EditorState): EnvironmentIndex {
+  const pairs: EnvironmentPair[] = [];
+  const unmatched: EnvironmentToken[] = [];
+  const open: EnvironmentPair[] = [];
+
+  for (let lineNumber = 1; lineNumber <= state.doc.lines; lineNumber++) {
+    const line = state.doc.line(lineNumber);
+    for (const match of stripComment(line.text).matchAll(ENVIRONMENT_TOKEN)) {
+      const token: EnvironmentToken = {
+        kind: match[1] as EnvironmentToken["kind"],
+        name: match[2].trim(),
+        from: line.from + match.index,
+        to: line.from + match.index + match[0].length,
+      };
+
+      if (token.kind === "begin") {
+        const pair: EnvironmentPair = { begin: token, end: null };
+        pairs.push(pair);
+        open.push(pair);
+        continue;
+      }
+
+      // Close the innermost environment with this name, leaving any
+      // unclosed environments nested inside it unmatched.
+      const index = open.map((pair) => pair.begin.name).lastIndexOf(token.name);
+      if (index === -1) {
+        unmatched.push(token);
+      } else {
+        open[index].end = token;
+        open.length = index;
+      }
+    }
+  }
+
+  return { pairs, unmatched };
+}
+
+const environmentField = StateField.define<EnvironmentIndex>({
+  create: findEnvironments,
+  update: (value, transaction) => (transaction.docChanged ? findEnvironments(transaction.state) : value),
+});
+
+// Folds an environment from the end of its \begin line to the start of its
+// \end line, so both delimiters stay visible.
+const environmentFolding = foldService.of((state, lineStart, lineEnd) => {
+  const { pairs } = state.field(environmentField);
+  const pair = pairs.find(
+    ({ begin, end }) => end && begin.from >= lineStart && begin.to <= lineEnd && end.from > lineEnd,
+  );
+  if (!pair?.end) return null;
+  const to = state.doc.lineAt(pair.end.from).from - 1;
+  return to > lineEnd ? { from: lineEnd, to } : null;
+});
+
+const matchingMark = Decoration.mark({ class: "cm-matchingEnvironment" });
+const nonMatchingMark = Decoration.mark({ class: "cm-nonmatchingEnvironment" });
+
+// Highlights the \begin/\end pair under the cursor, like bracketMatching does
+// for braces.
+const environmentMatching = EditorView.decorations.compute(["selection", environmentField], (state) => {
+  const { pairs, unmatched } = state.field(environmentField);
+  const marks: Range<Decoration>[] = [];
+
+  for (const range of state.selection.ranges) {
+    const at = (token: EnvironmentToken | null) => token && range.head >= token.from && range.head <= token.to;
+    const pair = pairs.find(({ begin, end }) => at(begin) || at(end));
+    if (pair) {
+      if (pair.end) {
+        marks.push(matchingMark.range(pair.begin.from, pair.begin.to), matchingMark.range(pair.end.from, pair.end.to));
+      } else {
+        marks.push(nonMatchingMark.range(pair.begin.from, pair.begin.to));
+      }
+      continue;
+    }
+    const stray = unmatched.find((token) => at(token));
+    if (stray) marks.push(nonMatchingMark.range(stray.from, stray.to));
+  }
+
+  return Decoration.set(marks, true);
+});
+
+const LINT_SEVERITY: Record<Diagnostic["severity"], LintDiagnostic["severity"]> = {
+  error: "error",
+  warning: "warning",
+  badbox: "info",
+};
+
+// Maps compiler diagnostics onto editor ranges. Callers pass only the
+// diagnostics of the file being edited. Each marker underlines its whole
+// line, skipping leading indentation, since TeX only reports line numbers.
+export function toEditorDiagnostics(doc: Text, diagnostics: Diagnostic[]): LintDiagnostic[] {
+  return diagnostics
+    .filter((diagnostic) => diagnostic.line)
+    .map((diagnostic) => {
+      const line = doc.line(Math.min(diagnostic.line!, doc.lines));
+      const indent = line.text.length - line.text.trimStart().length;
+      return {
+        from: line.from + indent,
+        to: line.to,
+        severity: LINT_SEVERITY[diagnostic.severity],
+        message: diagnostic.message,
+        source: diagnostic.severity === "badbox" ? "Bad box" : undefined,
+      };
+    });
+}
+
+// Moves the cursor to the next error after it, wrapping around to the first.
+// Unlike nextDiagnostic this skips warnings and bad boxes.
+export const goToNextError: Command = (view) => {
+  const errors: number[] = [];
+  forEachDiagnostic(view.state, (diagnostic, from) => {
+    if (diagnostic.severity === "error") errors.push(from);
+  });
+  if (errors.length === 0) return false;
+
+  errors.sort((a, b) => a - b);
+  const head = view.state.selection.main.head;
+  const target = errors.find((from) => from > head) ?? errors[0];
+  view.dispatch({
+    selection: EditorSelection.cursor(target),
+    effects: EditorView.scrollIntoView(target, { y: "center" }),
+  });
+  return true;
+};
+
+const latexHighlightStyle = HighlightStyle.define([
+  { tag: tags.tagName, color: "hsl(var(--primary))" },
+  { tag: tags.keyword, color: "hsl(var(--accent))", fontWeight: "bold" },
+  { tag: tags.special(tags.variableName), color: "hsl(var(--warning))" },
+  { tag: [tags.atom, tags.number], color: "hsl(199 89% 60%)" },
+  { tag: tags.bracket, color: "hsl(var(--muted-foreground))" },
+  { tag: tags.comment, color: "hsl(var(--muted-foreground))", fontStyle: "italic" },
+  { tag: tags.invalid, color: "hsl(0 84% 60%)" },
+]);
+
+export const latexEditorTheme = EditorView.theme(
+  {
+    "&": {
+      height: "100%",
+      backgroundColor: "hsl(var(--code-bg))",
+      color: "hsl(var(--foreground))",
+      fontSize: "0.875rem",
+    },
+    "&.cm-focused": { outline: "none" },
+    ".cm-scroller": {
+      fontFamily: "'Monaco', 'Menlo', 'Ubuntu Mono', 'Consolas', 'source-code-pro', monospace",
+      lineHeight: "1.5",
+    },
+    ".cm-content": { caretColor: "hsl(var(--primary))" },
+    ".cm-cursor, .cm-dropCursor": { borderLeftColor: "hsl(var(--primary))" },
+    "&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground": {
+      backgroundColor: "hsl(var(--primary) / 0.25)",
+    },
+    ".cm-gutters": {
+      backgroundColor: "hsl(var(--code-bg))",
+      color: "hsl(var(--muted-foreground))",
+      borderRight: "1px solid hsl(var(--code-border))",
+    },
+    ".cm-activeLine": { backgroundColor: "hsl(var(--muted) / 0.5)" },
+    ".cm-activeLineGutter": { backgroundColor: "hsl(var(--muted) / 0.5)", color: "hsl(var(--foreground))" },
+    ".cm-foldPlaceholder": {
+      backgroundColor: "hsl(var(--muted))",
+      border: "1px solid hsl(var(--border))",
+      color: "hsl(var(--muted-foreground))",
+    },
+    "&.cm-focused .cm-matchingBracket, .cm-matchingEnvironment": {
+      backgroundColor: "hsl(var(--primary) / 0.2)",
+      outline: "1px solid hsl(var(--primary) / 0.5)",
+    },
+    "&.cm-focused .cm-nonmatchingBracket, .cm-nonmatchingEnvironment": {
+      backgroundColor: "hsl(var(--destructive) / 0.4)",
+    },
+    ".cm-panels": { backgroundColor: "hsl(var(--card))", color: "hsl(var(--foreground))" },
+    ".cm-tooltip": {
+      backgroundColor: "hsl(var(--popover))",
+      color: "hsl(var(--popover-foreground))",
+      border: "1px solid hsl(var(--border))",
+    },
+    ".cm-tooltip-lint": { maxWidth: "32rem", whiteSpace: "pre-wrap" },
+    ".cm-tooltip.cm-tooltip-autocomplete > ul > li[aria-selected]": {
+      backgroundColor: "hsl(var(--primary) / 0.25)",
+      color: "hsl(var(--foreground))",
+    },
+    ".cm-completionDetail": { color: "hsl(var(--muted-foreground))" },
+    ".cm-completionMatchedText": { color: "hsl(var(--primary))", textDecoration: "none" },
+    ".cm-placeholder": { color: "hsl(var(--muted-foreground))" },
+  },
+  { dark: true },
+);
+
+export function latex(): Extension {
+  return [
+    StreamLanguage.define(stex),
+    syntaxHighlighting(latexHighlightStyle),
+    environmentField,
+    environmentFolding,
+    environmentMatching,
+  ];
+}
@@ -0,0 +1,224 @@
+// Shared types and helpers for talking to the latex-convert function
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export const TEX_ENGINES = [
+  { value: "pdflatex", label: "pdfLaTeX" },
+  { value: "xelatex", label: "XeLaTeX" },
+  { value: "lualatex", label: "LuaLaTeX" },
+  { value: "platex", label: "pLaTeX" },
+] as const;
+
+export type TexEngine = (typeof TEX_ENGINES)[number]["value"];
+
+export const DEFAULT_TEX_ENGINE: TexEngine = "pdflatex";
+
+// Name the function reports single-file sources under
+export const MAIN_FILE = "document.tex";
+
+// Starter document for the editor and new projects
+export const DEFAULT_LATEX = `\\documentclass{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage{amsmath}
+
+\\title{LaTeX to PDF Converter}
+\\author{Your Name}
+\\date{\\today}
+
+\\begin{document}
+
+\\maketitle
+
+\\section{Introduction}
+This is a simple LaTeX document that demonstrates the conversion to PDF.
+
+\\subsection{Mathematics}
+Here's an equation:
+\\begin{equation}
+    E = mc^2
+\\end{equation}
+
+\\subsection{Lists}
+\\begin{itemize}
+    \\item First item
+    \\item Second item
+    \\item Third item
+\\end{itemize}
+
+\\end{document}`;
+
+export type DiagnosticSeverity = "error" | "warning" | "badbox";
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export interface CompileFile {
+  path: string;
+  content: string;
+  encoding?: "utf8" | "base64";
+}
+
+// Either a single `latex` document or a multi-file project
+export interface CompileRequest {
+  latex?: string;
+  files?: CompileFile[];
+  mainFile?: string;
+  engine?: TexEngine;
+  // Also produce SyncTeX data for editor/preview navigation
+  synctex?: boolean;
+  // Also return the .bbl file, e.g. for arXiv submissions
+  bbl?: boolean;
+}
+
+export interface CompileResponse {
+  success?: boolean;
+  pdfUrl?: string;
+  engine?: TexEngine;
+  diagnostics?: Diagnostic[];
+  message?: string;
+  error?: string;
+  details?: string;
+  log?: string;
+  synctex?: string | null;
+  bbl?: string | null;
+}
+
+export type CompileJobStatus = Database["public"]["Enums"]["compile_job_status"];
+
+export interface CompileJob {
+  id: string;
+  status: CompileJobStatus;
+  progress: number;
+  engine: TexEngine;
+  mainFile: string;
+  logTail: string | null;
+  diagnostics: Diagnostic[];
+  error: string | null;
+  // Signed download URL, set once the job has succeeded
+  pdfUrl: string | null;
+  // Signed download URL for the uncompressed SyncTeX data, when requested
+  synctexUrl: string | null;
+  // Signed download URL for the full compile log; null for cache hits
+  logUrl: string | null;
+  // Signed download URL for the .bbl file, when requested and produced
+  bblUrl: string | null;
+  callbackUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+export interface CompileJobResponse {
+  jobId?: string;
+  status?: CompileJobStatus;
+  statusUrl?: string;
+  error?: string;
+  details?: string;
+  // Seconds until a rate-limited caller may compile again
+  retryAfter?: number;
+}
+
+// What the function's compile backend supports
+export interface BackendInfo {
+  name: string;
+  // Only the local backend produces SyncTeX data
+  synctex: boolean;
+}
+
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Error responses (4xx/5xx) are turned into an error by supabase-js; unwrap
+// JSON bodies so callers can still read the error and diagnostics.
+async function invokeFunction<T>(name: string, options: Parameters<typeof supabase.functions.invoke>[1]): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>(name, options);
+
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    if (response.headers.get("content-type")?.includes("application/json")) {
+      return response.json();
+    }
+  }
+  if (error) throw error;
+
+  return data;
+}
+
+export function invokeLatexConvert(body: CompileRequest): Promise<CompileResponse> {
+  return invokeFunction<CompileResponse>("latex-convert", { body });
+}
+
+export function startCompileJob(body: CompileRequest, signal?: AbortSignal): Promise<CompileJobResponse> {
+  return invokeFunction<CompileJobResponse>("latex-convert", { body: { ...body, async: true }, signal });
+}
+
+export async function getBackendInfo(): Promise<BackendInfo> {
+  const info = await invokeFunction<BackendInfo & { error?: string }>("latex-convert/backend", { method: "GET" });
+  if (typeof info.synctex !== "boolean") {
+    throw new Error(info.error ?? "Failed to load the compile backend");
+  }
+  return info;
+}
+
+export async function getCompileJob(id: string, signal?: AbortSignal): Promise<CompileJob> {
+  const job = await invokeFunction<CompileJob & { error?: string }>(`latex-convert/jobs/${id}`, {
+    method: "GET",
+    signal,
+  });
+  if (!job.status) {
+    throw new Error(job.error ?? "Failed to load compile job");
+  }
+  return job;
+}
+
+// Stops a queued or running job on the server, so a compile nobody waits for
+// any more does not keep running
+export async function cancelCompileJob(id: string): Promise<void> {
+  const job = await invokeFunction<CompileJob & { error?: string }>(`latex-convert/jobs/${id}`, { method: "DELETE" });
+  if (!job.status) {
+    throw new Error(job.error ?? "Failed to cancel compile job");
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+// Polls a job until it succeeds, fails or is cancelled, reporting every
+// status update. Aborting the signal only stops polling; use cancelCompileJob
+// to stop the job itself.
+export async function waitForCompileJob(
+  id: string,
+  onUpdate?: (job: CompileJob) => void,
+  signal?: AbortSignal,
+): Promise<CompileJob> {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    signal?.throwIfAborted();
+    const job = await getCompileJob(id, signal);
+    signal?.throwIfAborted();
+    onUpdate?.(job);
+    if (job.status === "succeeded" || job.status === "failed" || job.status === "cancelled") {
+      return job;
+    }
+    await delay(JOB_POLL_INTERVAL_MS, signal);
+  }
+
+  throw new Error("Timed out waiting for the compile job to finish");
+}
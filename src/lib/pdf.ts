@@ -0,0 +1,53 @@
+// PDF.js setup and helpers for the preview viewer. The worker is bundled by
+// Vite as a separate asset.
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy } from "pdfjs-dist";
+import workerSrc from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = workerSrc;
+
+// Page dimensions in PDF points, i.e. at 100% zoom
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface LoadedPdf {
+  document: PDFDocumentProxy;
+  pageSizes: PageSize[];
+}
+
+// Loads the document and every page's size up front, so the viewer can lay
+// out all pages before any of them is rendered.
+export async function loadPdf(url: string): Promise<LoadedPdf> {
+  const document = await getDocument(url).promise;
+  const pageSizes = await Promise.all(
+    Array.from({ length: document.numPages }, async (_, index) => {
+      const page = await document.getPage(index + 1);
+      const { width, height } = page.getViewport({ scale: 1 });
+      return { width, height };
+    }),
+  );
+  return { document, pageSizes };
+}
+
+// Plain text of every page, in reading order, for search
+export async function getPageTexts(document: PDFDocumentProxy): Promise<string[]> {
+  return Promise.all(
+    Array.from({ length: document.numPages }, async (_, index) => {
+      const page = await document.getPage(index + 1);
+      const { items } = await page.getTextContent();
+      return items.map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : "")).join("");
+    }),
+  );
+}
+
+export function countMatches(text: string, query: string): number {
+  if (!query) return 0;
+  const haystack = text.toLocaleLowerCase();
+  const needle = query.toLocaleLowerCase();
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    count++;
+  }
+  return count;
+}
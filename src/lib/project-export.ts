@@ -0,0 +1,87 @@
+// Bundles a project's sources, assets and compile output into a ZIP archive,
+// laid out so it can be uploaded to arXiv as is.
+import { basename } from "@/lib/project-tree";
+import { createZip, type ZipEntry } from "@shared/zip";
+
+export interface ProjectExport {
+  mainFile: string;
+  // Text file contents by path
+  files: Record<string, string>;
+  assets: { path: string; data: Blob }[];
+  // Output of the latest compile, added at the archive root
+  pdf?: Blob | null;
+  log?: string | null;
+  // Placed next to the main file, where arXiv looks for it
+  bbl?: string | null;
+  // Inline \input and \include'd files into the main file
+  flatten?: boolean;
+}
+
+const INPUT_COMMAND = /\\(input|include)\s*\{([^{}]+)\}/g;
+
+function stripExtension(path: string): string {
+  return path.replace(/\.[^./]+$/, "");
+}
+
+// Index of the first % that starts a comment, or the line length
+function commentStart(line: string): number {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\\") i++;
+    else if (line[i] === "%") return i;
+  }
+  return line.length;
+}
+
+// Inlines the project files that \input and \include refer to, recursively.
+// Commands in comments, files that are not in the project and circular
+// inputs are left as they are. Returns the flattened main file and the paths
+// that were inlined.
+export function flattenInputs(files: Record<string, string>, mainFile: string) {
+  const inlined = new Set<string>();
+
+  const resolve = (name: string) => [name, `${name}.tex`].find((path) => path in files);
+
+  const expand = (source: string, stack: string[]): string =>
+    source
+      .split("\n")
+      .map((line) => {
+        const end = commentStart(line);
+        const code = line.slice(0, end).replace(INPUT_COMMAND, (command, kind: string, name: string) => {
+          const path = resolve(name.trim());
+          if (!path || stack.includes(path)) return command;
+          inlined.add(path);
+          const content = expand(files[path], [...stack, path]).replace(/\n$/, "");
+          // \include starts and ends its file on a new page
+          return kind === "include" ? `\\clearpage\n${content}\n\\clearpage` : content;
+        });
+        return code + line.slice(end);
+      })
+      .join("\n");
+
+  return { source: expand(files[mainFile], [mainFile]), inlined };
+}
+
+export async function createProjectZip(project: ProjectExport): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const add = (path: string, data: Uint8Array) => {
+    if (!entries.some((entry) => entry.path === path)) entries.push({ path, data });
+  };
+
+  const flattened = project.flatten ? flattenInputs(project.files, project.mainFile) : null;
+  for (const [path, content] of Object.entries(project.files)) {
+    if (flattened?.inlined.has(path)) continue;
+    add(path, encoder.encode(path === project.mainFile && flattened ? flattened.source : content));
+  }
+  for (const asset of project.assets) {
+    add(asset.path, new Uint8Array(await asset.data.arrayBuffer()));
+  }
+
+  // Generated files never replace a project file of the same name
+  const stem = stripExtension(project.mainFile);
+  if (project.bbl) add(`${stem}.bbl`, encoder.encode(project.bbl));
+  if (project.pdf) add(`${basename(stem)}.pdf`, new Uint8Array(await project.pdf.arrayBuffer()));
+  if (project.log) add(`${basename(stem)}.log`, encoder.encode(project.log));
+
+  return new Blob([await createZip(entries)], { type: "application/zip" });
+}
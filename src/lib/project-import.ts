@@ -0,0 +1,59 @@
+// Unpacks an Overleaf or arXiv style ZIP archive into project files, with the
+// reader and rules the latex-convert function uses for ZIP uploads.
+import { isValidPath } from "@/lib/project-tree";
+import { assetContentType, MAX_ASSET_SIZE, MAX_PROJECT_FILES, MAX_PROJECT_SIZE, MAX_TEXT_FILE_SIZE } from "@/lib/projects";
+import { archiveFiles, decodeTextFile, findMainFile, MAX_ARCHIVE_ENTRIES } from "@shared/project-archive";
+import { readZip } from "@shared/zip";
+
+export interface ProjectArchive {
+  // Archive file name without its extension
+  name: string;
+  mainFile: string;
+  // Text file contents by path
+  files: Record<string, string>;
+  assets: { path: string; data: Blob }[];
+  // Files of a type projects cannot hold, and text files over the size limit
+  skipped: string[];
+}
+
+// Throws when the archive is invalid, escapes the project with its paths or
+// exceeds the project limits. Files the project cannot hold are skipped.
+export async function readProjectArchive(archive: File): Promise<ProjectArchive> {
+  if (archive.size > MAX_PROJECT_SIZE) throw new Error("The archive is too large (max 5MB)");
+  const entries = await readZip(new Uint8Array(await archive.arrayBuffer()), {
+    maxEntries: MAX_ARCHIVE_ENTRIES,
+    maxEntrySize: MAX_ASSET_SIZE,
+    maxTotalSize: MAX_PROJECT_SIZE,
+  });
+
+  const result: ProjectArchive = {
+    name: archive.name.replace(/\.zip$/i, ""),
+    mainFile: "",
+    files: {},
+    assets: [],
+    skipped: [],
+  };
+  for (const { path, rawPath, data } of archiveFiles(entries)) {
+    if (!isValidPath(path)) throw new Error(`The archive contains an invalid path: ${rawPath}`);
+
+    const contentType = assetContentType(path);
+    if (contentType) {
+      result.assets.push({ path, data: new Blob([data], { type: contentType }) });
+      continue;
+    }
+    const content = decodeTextFile(path, data, MAX_TEXT_FILE_SIZE);
+    if (content === null) {
+      result.skipped.push(path);
+      continue;
+    }
+    result.files[path] = content;
+  }
+
+  if (Object.keys(result.files).length + result.assets.length > MAX_PROJECT_FILES) {
+    throw new Error(`The archive has more than ${MAX_PROJECT_FILES} files`);
+  }
+  const mainFile = findMainFile(result.files);
+  if (!mainFile) throw new Error("No .tex file in the archive contains \\documentclass");
+  result.mainFile = mainFile;
+  return result;
+}
@@ -0,0 +1,83 @@
+// Path helpers and the folder tree for project files. Folders are implied by
+// file paths; empty ones only exist in the editor until a file is added.
+
+export interface FileNode {
+  type: "file";
+  name: string;
+  path: string;
+}
+
+export interface FolderNode {
+  type: "folder";
+  name: string;
+  path: string;
+  children: TreeNode[];
+}
+
+export type TreeNode = FileNode | FolderNode;
+
+export function basename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+export function dirname(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index === -1 ? "" : path.slice(0, index);
+}
+
+export function joinPath(folder: string, name: string): string {
+  return folder ? `${folder}/${name}` : name;
+}
+
+// Same rules as the latex-convert function: relative, no empty, "." or ".."
+// segments, so files cannot escape the compile directory, and no segments
+// starting with a dash. latexmk configuration files are rejected too.
+export function isValidPath(path: string): boolean {
+  if (!path || path.length > 255) return false;
+  if (path.startsWith("/") || path.includes("\\") || path.includes("\0")) return false;
+  if (/(^|\/)\.?latexmkrc$/i.test(path)) return false;
+  return path
+    .split("/")
+    .every((segment) => segment !== "" && segment !== "." && segment !== ".." && !segment.startsWith("-"));
+}
+
+// True for the path itself and everything inside it when it is a folder
+export function isWithin(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}/`);
+}
+
+// Where a path ends up when `from` (a file or folder) is renamed to `to`
+export function movePath(path: string, from: string, to: string): string {
+  return isWithin(path, from) ? to + path.slice(from.length) : path;
+}
+
+function sortNodes(nodes: TreeNode[]): TreeNode[] {
+  nodes.sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === "folder" ? -1 : 1));
+  for (const node of nodes) {
+    if (node.type === "folder") sortNodes(node.children);
+  }
+  return nodes;
+}
+
+// Folders first, then files, each sorted by name
+export function buildTree(filePaths: string[], folderPaths: string[] = []): TreeNode[] {
+  const root: TreeNode[] = [];
+  const folders = new Map<string, FolderNode>();
+
+  const folderAt = (path: string): TreeNode[] => {
+    if (!path) return root;
+    let folder = folders.get(path);
+    if (!folder) {
+      folder = { type: "folder", name: basename(path), path, children: [] };
+      folders.set(path, folder);
+      folderAt(dirname(path)).push(folder);
+    }
+    return folder.children;
+  };
+
+  for (const path of folderPaths) folderAt(path);
+  for (const path of filePaths) {
+    folderAt(dirname(path)).push({ type: "file", name: basename(path), path });
+  }
+  return sortNodes(root);
+}
@@ -0,0 +1,244 @@
+// Saved projects: a named set of files plus the main file and engine used to
+// compile them. Row level security scopes every query to the signed-in user.
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { DEFAULT_LATEX, MAIN_FILE, type TexEngine } from "@/lib/latex";
+import type { ProjectArchive } from "@/lib/project-import";
+
+export type Project = Tables<"projects">;
+// Assets have an empty content and their bytes in storage
+export type ProjectFile = Pick<
+  Tables<"project_files">,
+  "path" | "content" | "updated_at" | "storage_path" | "size_bytes"
+>;
+
+// Binary files are stored in this bucket under <project id>/<uuid>
+const ASSET_BUCKET = "project-assets";
+
+// Same as the bucket's file size limit and the latex-convert function's
+// limit for binary files
+export const MAX_ASSET_SIZE = 2 * 1024 * 1024;
+// Limits the latex-convert function applies to a whole compile
+export const MAX_TEXT_FILE_SIZE = 100000;
+export const MAX_PROJECT_FILES = 100;
+export const MAX_PROJECT_SIZE = 5 * 1024 * 1024;
+
+// Content types of the files that can be uploaded, by extension
+const ASSET_TYPES = new Map([
+  ["png", "image/png"],
+  ["jpg", "image/jpeg"],
+  ["jpeg", "image/jpeg"],
+  ["pdf", "application/pdf"],
+  ["eps", "application/postscript"],
+]);
+
+export const ASSET_EXTENSIONS = [...ASSET_TYPES.keys()].map((extension) => `.${extension}`);
+
+export function assetContentType(path: string): string | undefined {
+  const match = /\.([^./]+)$/.exec(path);
+  return match ? ASSET_TYPES.get(match[1].toLowerCase()) : undefined;
+}
+
+export interface ProjectWithFiles {
+  project: Project;
+  files: ProjectFile[];
+}
+
+export async function listProjects(): Promise<Project[]> {
+  const { data, error } = await supabase.from("projects").select("*").order("updated_at", { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+export async function getProject(id: string): Promise<ProjectWithFiles> {
+  const [{ data: project, error: projectError }, { data: files, error: filesError }] = await Promise.all([
+    supabase.from("projects").select("*").eq("id", id).maybeSingle(),
+    supabase
+      .from("project_files")
+      .select("path, content, updated_at, storage_path, size_bytes")
+      .eq("project_id", id)
+      .order("path"),
+  ]);
+  if (projectError) throw projectError;
+  if (filesError) throw filesError;
+  if (!project) throw new Error("Project not found");
+  return { project, files };
+}
+
+async function insertProject(name: string, mainFile: string, engine?: TexEngine): Promise<Project> {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+
+  const { data: project, error } = await supabase
+    .from("projects")
+    .insert({ owner_id: userData.user.id, name, main_file: mainFile, engine })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return project;
+}
+
+// New projects start with the default document as their main file.
+export async function createProject(name: string, content = DEFAULT_LATEX): Promise<Project> {
+  const project = await insertProject(name, MAIN_FILE);
+  await saveProjectFile(project.id, MAIN_FILE, content);
+  return project;
+}
+
+// Creates a project holding the given files, e.g. a filled-in template. A
+// project that could not be filled completely is deleted again.
+export async function createProjectWithFiles(
+  name: string,
+  mainFile: string,
+  files: Record<string, string>,
+  { engine, assets = [] }: { engine?: TexEngine; assets?: ProjectArchive["assets"] } = {},
+): Promise<Project> {
+  const project = await insertProject(name, mainFile, engine);
+  try {
+    const rows = Object.entries(files).map(([path, content]) => ({ project_id: project.id, path, content }));
+    const { error } = await supabase.from("project_files").insert(rows);
+    if (error) throw error;
+    for (const asset of assets) {
+      await uploadProjectAsset(project.id, asset.path, asset.data);
+    }
+    return project;
+  } catch (error) {
+    await deleteProject(project.id).catch((cleanupError: unknown) => {
+      console.error("Failed to remove partly created project:", cleanupError);
+    });
+    throw error;
+  }
+}
+
+// Creates a project from an unpacked archive
+export function importProject(archive: ProjectArchive): Promise<Project> {
+  return createProjectWithFiles(archive.name || "Imported project", archive.mainFile, archive.files, {
+    assets: archive.assets,
+  });
+}
+
+export async function updateProject(
+  id: string,
+  changes: Pick<TablesUpdate<"projects">, "name" | "engine" | "main_file">,
+): Promise<void> {
+  const { error } = await supabase.from("projects").update(changes).eq("id", id);
+  if (error) throw error;
+}
+
+async function listAssetObjects(projectId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("project_files")
+    .select("storage_path")
+    .eq("project_id", projectId)
+    .not("storage_path", "is", null);
+  if (error) throw error;
+  return data.map((file) => file.storage_path).filter((path): path is string => path !== null);
+}
+
+// Returns the id of the copy. The copy's assets point at the same object
+// names under its own folder, so the objects are copied over afterwards.
+export async function duplicateProject(project: Project): Promise<string> {
+  const { data, error } = await supabase.rpc("duplicate_project", {
+    p_project_id: project.id,
+    p_name: `${project.name} (copy)`,
+  });
+  if (error) throw error;
+
+  for (const storagePath of await listAssetObjects(project.id)) {
+    const copyPath = `${data}/${storagePath.slice(storagePath.indexOf("/") + 1)}`;
+    const { error: copyError } = await supabase.storage.from(ASSET_BUCKET).copy(storagePath, copyPath);
+    if (copyError) throw copyError;
+  }
+  return data;
+}
+
+// Assets are removed first, since access to them is checked against the
+// project.
+export async function deleteProject(id: string): Promise<void> {
+  const storagePaths = await listAssetObjects(id);
+  if (storagePaths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(ASSET_BUCKET).remove(storagePaths);
+    if (storageError) throw storageError;
+  }
+
+  const { error } = await supabase.from("projects").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function saveProjectFile(projectId: string, path: string, content: string): Promise<void> {
+  const { error } = await supabase
+    .from("project_files")
+    .upsert({ project_id: projectId, path, content }, { onConflict: "project_id,path" });
+  if (error) throw error;
+}
+
+// Renames a file, or moves a folder with everything inside it. The main file
+// follows the rename.
+export async function renameProjectPath(projectId: string, from: string, to: string): Promise<void> {
+  const { error } = await supabase.rpc("rename_project_path", { p_project_id: projectId, p_from: from, p_to: to });
+  if (error) throw error;
+}
+
+// Records a binary file at `path` and uploads it. Storage only accepts
+// objects a project_files row names, so the row comes first and is removed
+// again if the upload fails, e.g. because the project has no room for it.
+// The database sets size_bytes from the stored object.
+export async function uploadProjectAsset(
+  projectId: string,
+  path: string,
+  file: Blob,
+): Promise<{ storage_path: string; size_bytes: number }> {
+  const contentType = assetContentType(path);
+  if (!contentType) throw new Error(`Unsupported file type: ${path}`);
+  if (file.size > MAX_ASSET_SIZE) throw new Error(`${path} is too large (max 2MB)`);
+
+  const storagePath = `${projectId}/${crypto.randomUUID()}`;
+  const { error } = await supabase
+    .from("project_files")
+    .insert({ project_id: projectId, path, content: "", storage_path: storagePath });
+  if (error) throw error;
+
+  const { error: uploadError } = await supabase.storage.from(ASSET_BUCKET).upload(storagePath, file, { contentType });
+  if (uploadError) {
+    await supabase.from("project_files").delete().eq("project_id", projectId).eq("path", path);
+    throw uploadError;
+  }
+  return { storage_path: storagePath, size_bytes: file.size };
+}
+
+export async function downloadProjectAsset(storagePath: string): Promise<Blob> {
+  const { data, error } = await supabase.storage.from(ASSET_BUCKET).download(storagePath);
+  if (error) throw error;
+  return data;
+}
+
+// Base64 without the data URL prefix, as the latex-convert function expects
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Objects of deleted assets are removed afterwards; one that fails to be
+// removed is no longer reachable from the project.
+export async function deleteProjectFiles(projectId: string, paths: string[]): Promise<void> {
+  const { data, error } = await supabase
+    .from("project_files")
+    .delete()
+    .eq("project_id", projectId)
+    .in("path", paths)
+    .select("storage_path");
+  if (error) throw error;
+
+  const storagePaths = data.map((file) => file.storage_path).filter((path): path is string => path !== null);
+  if (storagePaths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(ASSET_BUCKET).remove(storagePaths);
+    if (storageError) console.error("Failed to remove project assets:", storageError);
+  }
+}
@@ -0,0 +1,154 @@
+// SyncTeX parsing for navigation between the editor and the PDF preview.
+// Positions are converted to PDF points measured from the top-left corner of
+// the page, which is what PDF.js viewports use at scale 1.
+
+// Scaled points per PDF point (65536 sp/pt * 72.27 pt/in / 72 bp/in)
+const SP_PER_BP = 65781.76;
+
+// Records narrower or shorter than this are treated as points when
+// searching, so a click still finds a nearby line
+const MIN_BOX_SIZE = 1;
+
+interface SynctexRecord {
+  file: string;
+  line: number;
+  page: number;
+  x: number;
+  // Top edge
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SynctexData {
+  records: SynctexRecord[];
+}
+
+export interface PdfLocation {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+const RECORD = /^([(hxkg$])(\d+),(\d+):(-?\d+),(-?\d+)(?::(-?\d+)(?:,(-?\d+),(-?\d+))?)?/;
+
+function normalizePath(path: string): string {
+  return path.replace(/(^|\/)(\.\/)+/g, "$1");
+}
+
+// Keeps horizontal boxes and point records (kerns, glue, math); vertical
+// boxes span whole paragraphs or pages and are too coarse to navigate by.
+export function parseSynctex(text: string): SynctexData {
+  const inputs = new Map<string, string>();
+  const records: SynctexRecord[] = [];
+  let unit = 1;
+  let magnification = 1000;
+  let xOffset = 0;
+  let yOffset = 0;
+  let page = 0;
+
+  const toPoints = (value: number, offset: number) => ((value * magnification) / 1000 + offset) * (unit / SP_PER_BP);
+
+  for (const line of text.split("\n")) {
+    const header = /^(Input|Unit|Magnification|X Offset|Y Offset):(.*)$/.exec(line);
+    if (header) {
+      const [, key, value] = header;
+      if (key === "Input") {
+        const separator = value.indexOf(":");
+        inputs.set(value.slice(0, separator), normalizePath(value.slice(separator + 1)));
+      } else if (key === "Unit") {
+        unit = Number(value);
+      } else if (key === "Magnification") {
+        magnification = Number(value);
+      } else if (key === "X Offset") {
+        xOffset = Number(value);
+      } else {
+        yOffset = Number(value);
+      }
+      continue;
+    }
+
+    if (line.startsWith("{")) {
+      page = Number(line.slice(1));
+      continue;
+    }
+
+    const match = RECORD.exec(line);
+    if (!match || page === 0) continue;
+    const [, kind, tag, sourceLine, h, v, width, height, depth] = match;
+    const file = inputs.get(tag);
+    if (!file) continue;
+
+    const isBox = kind === "(" || kind === "h";
+    const boxHeight = isBox ? Number(height ?? 0) : 0;
+    records.push({
+      file,
+      line: Number(sourceLine),
+      page,
+      x: toPoints(Number(h), xOffset),
+      y: toPoints(Number(v) - boxHeight, yOffset),
+      width: isBox ? toPoints(Number(width ?? 0), 0) : 0,
+      height: isBox ? toPoints(boxHeight + Number(depth ?? 0), 0) : 0,
+    });
+  }
+
+  return { records };
+}
+
+export async function loadSynctex(url: string, signal?: AbortSignal): Promise<SynctexData> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Failed to load SyncTeX data (HTTP ${response.status})`);
+  return parseSynctex(await response.text());
+}
+
+// Forward search: the area on the first page showing the given source line.
+// Falls back to the closest earlier line with output, e.g. for blank lines.
+export function findPdfLocation({ records }: SynctexData, file: string, line: number): PdfLocation | null {
+  const inFile = records.filter((record) => record.file === file && record.line <= line);
+  if (inFile.length === 0) return null;
+
+  const target = Math.max(...inFile.map((record) => record.line));
+  const matches = inFile.filter((record) => record.line === target);
+  const page = Math.min(...matches.map((record) => record.page));
+  const onPage = matches.filter((record) => record.page === page);
+
+  const left = Math.min(...onPage.map((record) => record.x));
+  const top = Math.min(...onPage.map((record) => record.y));
+  const right = Math.max(...onPage.map((record) => record.x + record.width));
+  const bottom = Math.max(...onPage.map((record) => record.y + record.height));
+  return {
+    page,
+    x: left,
+    y: top,
+    width: Math.max(right - left, MIN_BOX_SIZE),
+    height: Math.max(bottom - top, MIN_BOX_SIZE),
+  };
+}
+
+function distance(record: SynctexRecord, x: number, y: number): number {
+  const dx = Math.max(record.x - x, 0, x - (record.x + record.width));
+  const dy = Math.max(record.y - y, 0, y - (record.y + record.height));
+  return Math.hypot(dx, dy);
+}
+
+// Inverse search: the source line of the smallest box containing the point,
+// or of the nearest record on the page when no box contains it.
+export function findSourceLocation({ records }: SynctexData, page: number, x: number, y: number): SourceLocation | null {
+  const onPage = records.filter((record) => record.page === page);
+  if (onPage.length === 0) return null;
+
+  const containing = onPage
+    .filter((record) => record.width >= MIN_BOX_SIZE && record.height >= MIN_BOX_SIZE && distance(record, x, y) === 0)
+    .sort((a, b) => a.width * a.height - b.width * b.height);
+  const best =
+    containing[0] ??
+    onPage.reduce((nearest, record) => (distance(record, x, y) < distance(nearest, x, y) ? record : nearest));
+  return { file: best.file, line: best.line };
+}
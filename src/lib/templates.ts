@@ -0,0 +1,183 @@
+// Starter documents for new projects and the scratch editor. Built-in
+// templates ship with the app; team templates are uploaded by users and kept
+// in the templates table.
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { DEFAULT_TEX_ENGINE, TEX_ENGINES, type TexEngine } from "@/lib/latex";
+import { readProjectArchive } from "@/lib/project-import";
+import { isValidPath } from "@/lib/project-tree";
+import { MAX_TEXT_FILE_SIZE } from "@/lib/projects";
+import { renderTemplate, TemplateError, templateNames } from "@shared/template";
+
+// Which schematic page the gallery draws as the thumbnail
+export const TEMPLATE_LAYOUTS = [
+  { value: "article", label: "Article" },
+  { value: "report", label: "Report" },
+  { value: "thesis", label: "Thesis" },
+  { value: "slides", label: "Slides" },
+  { value: "paper", label: "Two-column paper" },
+  { value: "cv", label: "CV" },
+  { value: "letter", label: "Letter" },
+] as const;
+
+export type TemplateLayout = (typeof TEMPLATE_LAYOUTS)[number]["value"];
+
+export interface Template {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  layout: TemplateLayout;
+  engine: TexEngine;
+  mainFile: string;
+  // Text file contents by path, with {{field}} placeholders and the other
+  // tags the latex-convert function's /render endpoint understands
+  files: Record<string, string>;
+  // Only set for team templates
+  ownerId?: string;
+}
+
+export interface TemplateField {
+  key: string;
+  label: string;
+  // LaTeX used when the field is left empty
+  fallback: string;
+}
+
+// Fields most templates share; any other placeholder gets a plain label
+const KNOWN_FIELDS: Record<string, Omit<TemplateField, "key">> = {
+  title: { label: "Title", fallback: "Untitled" },
+  author: { label: "Author", fallback: "Author" },
+  date: { label: "Date", fallback: "\\today" },
+  email: { label: "Email", fallback: "email@example.com" },
+  affiliation: { label: "Affiliation", fallback: "Institution" },
+  recipient: { label: "Recipient", fallback: "Recipient" },
+};
+
+// The values used outside sections by any of the template's files, in order
+// of first use. Files that are not valid templates ask for nothing; filling
+// the template reports them.
+export function templateFields(template: Pick<Template, "mainFile" | "files">): TemplateField[] {
+  const keys = new Set<string>();
+  const paths = [template.mainFile, ...Object.keys(template.files).filter((path) => path !== template.mainFile)];
+  for (const path of paths) {
+    try {
+      for (const key of templateNames(path, template.files[path] ?? "")) keys.add(key);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+    }
+  }
+  return [...keys].map((key) => ({
+    key,
+    ...(KNOWN_FIELDS[key] ?? { label: key.charAt(0).toUpperCase() + key.slice(1), fallback: "" }),
+  }));
+}
+
+// Renders every file with the same renderer as the /render endpoint. Empty
+// values are left out, so the field's fallback is used; dotted keys such as
+// client.name fill nested values.
+export function fillTemplate(template: Template, values: Record<string, string>): Record<string, string> {
+  const fields = new Map(templateFields(template).map((field) => [field.key, field]));
+  const data: Record<string, unknown> = {};
+  for (const [key, rawValue] of Object.entries(values)) {
+    const value = rawValue.trim();
+    if (!value) continue;
+    const parts = key.split(".");
+    let target = data;
+    for (const part of parts.slice(0, -1)) {
+      const next = target[part];
+      target = (typeof next === "object" && next !== null ? next : (target[part] = {})) as Record<string, unknown>;
+    }
+    target[parts[parts.length - 1]] = value;
+  }
+  return Object.fromEntries(
+    Object.entries(template.files).map(([path, content]) => [
+      path,
+      renderTemplate(path, content, data, { fallback: (name) => fields.get(name)?.fallback }),
+    ]),
+  );
+}
+
+function isTemplateLayout(value: string): value is TemplateLayout {
+  return TEMPLATE_LAYOUTS.some((layout) => layout.value === value);
+}
+
+function isTexEngine(value: string): value is TexEngine {
+  return TEX_ENGINES.some((engine) => engine.value === value);
+}
+
+function toTemplate(row: Tables<"templates">): Template {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    category: row.category,
+    layout: isTemplateLayout(row.layout) ? row.layout : "article",
+    engine: isTexEngine(row.engine) ? row.engine : DEFAULT_TEX_ENGINE,
+    mainFile: row.main_file,
+    files: row.files as Record<string, string>,
+    ownerId: row.owner_id,
+  };
+}
+
+// Shared templates of every user plus the signed-in user's private ones
+export async function listTeamTemplates(): Promise<Template[]> {
+  const { data, error } = await supabase.from("templates").select("*").order("name");
+  if (error) throw error;
+  return data.map(toTemplate);
+}
+
+export interface TemplateUpload {
+  name: string;
+  description: string;
+  layout: TemplateLayout;
+  engine: TexEngine;
+  shared: boolean;
+}
+
+// Uploads a single .tex file, or a ZIP archive of a whole project. Templates
+// only hold text files, so images in an archive are returned as skipped.
+export async function uploadTeamTemplate(
+  upload: TemplateUpload,
+  file: File,
+): Promise<{ template: Template; skipped: string[] }> {
+  let mainFile: string;
+  let files: Record<string, string>;
+  let skipped: string[] = [];
+  if (/\.zip$/i.test(file.name)) {
+    const archive = await readProjectArchive(file);
+    mainFile = archive.mainFile;
+    files = archive.files;
+    skipped = [...archive.skipped, ...archive.assets.map((asset) => asset.path)];
+  } else {
+    if (!/\.tex$/i.test(file.name) || !isValidPath(file.name)) throw new Error("Upload a .tex file or a ZIP archive");
+    if (file.size > MAX_TEXT_FILE_SIZE) throw new Error(`${file.name} is too large (max 100KB for text files)`);
+    mainFile = file.name;
+    files = { [mainFile]: await file.text() };
+  }
+
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+
+  const { data, error } = await supabase
+    .from("templates")
+    .insert({
+      owner_id: userData.user.id,
+      name: upload.name,
+      description: upload.description,
+      layout: upload.layout,
+      engine: upload.engine,
+      shared: upload.shared,
+      main_file: mainFile,
+      files: files as Json,
+    })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return { template: toTemplate(data), skipped };
+}
+
+export async function deleteTeamTemplate(id: string): Promise<void> {
+  const { error } = await supabase.from("templates").delete().eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,69 @@
+// Compile analytics for the usage dashboard, aggregated per day by the
+// compile_usage_daily database function.
+import { addDays, eachDayOfInterval, format, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface UsageFilters {
+  from: Date;
+  to: Date;
+  // Null includes every key, plus compiles made from the editor while signed
+  // in; anonymous editor compiles belong to nobody
+  keyId: string | null;
+}
+
+export interface DailyUsage {
+  day: string;
+  compiles: number;
+  failures: number;
+  cacheHits: number;
+  // Percentage of compiles that failed; null on days without compiles
+  failureRate: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+export interface UsageSummary {
+  compiles: number;
+  failures: number;
+  cacheHits: number;
+}
+
+// Returns one entry per day in the range, including days without compiles.
+export async function getDailyUsage({ from, to, keyId }: UsageFilters): Promise<DailyUsage[]> {
+  const { data, error } = await supabase.rpc("compile_usage_daily", {
+    p_from: startOfDay(from).toISOString(),
+    p_to: addDays(startOfDay(to), 1).toISOString(),
+    p_key_id: keyId ?? undefined,
+    p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  if (error) throw error;
+
+  const byDay = new Map(data.map((row) => [row.day, row]));
+  return eachDayOfInterval({ start: from, end: to }).map((date) => {
+    const day = format(date, "yyyy-MM-dd");
+    const row = byDay.get(day);
+    if (!row) {
+      return { day, compiles: 0, failures: 0, cacheHits: 0, failureRate: null, p50Ms: null, p95Ms: null };
+    }
+    return {
+      day,
+      compiles: row.compiles,
+      failures: row.failures,
+      cacheHits: row.cache_hits,
+      failureRate: row.compiles > 0 ? (row.failures / row.compiles) * 100 : null,
+      p50Ms: Math.round(row.p50_ms),
+      p95Ms: Math.round(row.p95_ms),
+    };
+  });
+}
+
+export function summarizeUsage(days: DailyUsage[]): UsageSummary {
+  return days.reduce(
+    (total, day) => ({
+      compiles: total.compiles + day.compiles,
+      failures: total.failures + day.failures,
+      cacheHits: total.cacheHits + day.cacheHits,
+    }),
+    { compiles: 0, failures: 0, cacheHits: 0 },
+  );
+}
@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Copy, KeyRound, Loader2, LogOut, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import AuthForm from "@/components/AuthForm";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import {
+  API_KEY_SCOPES,
+  type ApiKey,
+  type ApiKeyScope,
+  createApiKey,
+  listApiKeys,
+  renameApiKey,
+  revokeApiKey,
+  rotateApiKey,
+} from "@/lib/api-keys";
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never", days: null },
+  { value: "30", label: "30 days", days: 30 },
+  { value: "90", label: "90 days", days: 90 },
+  { value: "365", label: "1 year", days: 365 },
+] as const;
+
+function keyStatus(apiKey: ApiKey): { label: string; variant: "default" | "secondary" | "destructive" } {
+  if (apiKey.revoked_at) return { label: "Revoked", variant: "destructive" };
+  if (apiKey.expires_at && new Date(apiKey.expires_at) <= new Date()) return { label: "Expired", variant: "secondary" };
+  return { label: "Active", variant: "default" };
+}
+
+function formatDate(value: string | null): string {
+  return value ? format(new Date(value), "MMM d, yyyy") : "—";
+}
+
+const copyToClipboard = async (text: string) => {
+  await navigator.clipboard.writeText(text);
+  toast({ title: "Copied", description: "Copied to clipboard" });
+};
+
+const ApiKeys = () => {
+  const { session, isLoading: isSessionLoading } = useSession();
+  const queryClient = useQueryClient();
+
+  const [label, setLabel] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(API_KEY_SCOPES.map((scope) => scope.value));
+  const [expiry, setExpiry] = useState<(typeof EXPIRY_OPTIONS)[number]["value"]>("never");
+  const [createdKey, setCreatedKey] = useState<{ key: string; apiKey: ApiKey } | null>(null);
+  const [renaming, setRenaming] = useState<ApiKey | null>(null);
+  const [newLabel, setNewLabel] = useState("");
+  const [revoking, setRevoking] = useState<ApiKey | null>(null);
+
+  const { data: apiKeys = [], isLoading } = useQuery({
+    queryKey: ["api-keys", session?.user.id],
+    queryFn: listApiKeys,
+    enabled: Boolean(session),
+  });
+
+  const onError = (title: string) => (err: unknown) => {
+    toast({
+      title,
+      description: err instanceof Error ? err.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["api-keys"] });
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const days = EXPIRY_OPTIONS.find((option) => option.value === expiry)?.days;
+      return createApiKey({
+        label: label.trim(),
+        scopes,
+        expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+      });
+    },
+    onSuccess: (result) => {
+      setCreatedKey(result);
+      setLabel("");
+      invalidate();
+    },
+    onError: onError("Could Not Create Key"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: rotateApiKey,
+    onSuccess: (result) => {
+      setCreatedKey(result);
+      invalidate();
+    },
+    onError: onError("Could Not Rotate Key"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, label }: { id: string; label: string }) => renameApiKey(id, label),
+    onSuccess: () => {
+      setRenaming(null);
+      invalidate();
+    },
+    onError: onError("Could Not Rename Key"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => revokeApiKey(id),
+    onSuccess: () => {
+      setRevoking(null);
+      invalidate();
+    },
+    onError: onError("Could Not Revoke Key"),
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button asChild variant="ghost" size="icon">
+              <Link to="/" aria-label="Back to editor">
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <KeyRound className="w-6 h-6 text-primary" />
+            <h1 className="text-2xl font-bold text-foreground">API Keys</h1>
+          </div>
+          {session && (
+            <Button variant="outline" size="sm" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          )}
+        </div>
+
+        {isSessionLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !session ? (
+          <AuthForm description="Sign in to manage your API keys" />
+        ) : (
+          <>
+            {createdKey && (
+              <Alert className="border-primary bg-primary/10">
+                <KeyRound className="h-4 w-4 text-primary" />
+                <AlertTitle>Copy your new key now</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <p className="text-muted-foreground">
+                    "{createdKey.apiKey.label}" will not be shown again. Webhook callbacks for this key are signed with
+                    the webhook secret below.
+                  </p>
+                  {[
+                    { name: "API key", value: createdKey.key },
+                    { name: "Webhook secret", value: createdKey.apiKey.webhook_secret },
+                  ].map(({ name, value }) => (
+                    <div key={name} className="flex items-center gap-2">
+                      <span className="w-32 text-xs text-muted-foreground">{name}</span>
+                      <code className="flex-1 truncate bg-[hsl(var(--code-bg))] p-2 rounded border border-[hsl(var(--code-border))] text-primary text-xs">
+                        {value}
+                      </code>
+                      <Button variant="ghost" size="icon" onClick={() => copyToClipboard(value)} aria-label={`Copy ${name}`}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={() => setCreatedKey(null)}>
+                    Done
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Card className="p-6 bg-card border-border">
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createMutation.mutate();
+                }}
+              >
+                <h2 className="text-lg font-semibold text-foreground">Create Key</h2>
+                <div className="grid gap-4 md:grid-cols-[1fr_auto]">
+                  <div className="space-y-2">
+                    <Label htmlFor="key-label">Label</Label>
+                    <Input
+                      id="key-label"
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                      placeholder="e.g. Invoice service"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Expires</Label>
+                    <Select value={expiry} onValueChange={(value) => setExpiry(value as typeof expiry)}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXPIRY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-6">
+                  {API_KEY_SCOPES.map((scope) => (
+                    <label key={scope.value} className="flex items-center gap-2 text-sm text-foreground">
+                      <Checkbox
+                        checked={scopes.includes(scope.value)}
+                        onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                      />
+                      {scope.label}
+                      <span className="text-muted-foreground">— {scope.description}</span>
+                    </label>
+                  ))}
+                </div>
+                <Button type="submit" disabled={createMutation.isPending || !label.trim() || scopes.length === 0}>
+                  {createMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4 mr-2" />
+                  )}
+                  Create Key
+                </Button>
+              </form>
+            </Card>
+
+            <Card className="bg-card border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Scopes</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Last Used</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        Loading keys...
+                      </TableCell>
+                    </TableRow>
+                  ) : apiKeys.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No API keys yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    apiKeys.map((apiKey) => {
+                      const status = keyStatus(apiKey);
+                      const isActive = status.label === "Active";
+                      return (
+                        <TableRow key={apiKey.id}>
+                          <TableCell className="font-medium">{apiKey.label}</TableCell>
+                          <TableCell className="font-mono text-xs">{apiKey.key_prefix}_…</TableCell>
+                          <TableCell className="text-xs">{apiKey.scopes.join(", ")}</TableCell>
+                          <TableCell className="text-xs">{formatDate(apiKey.created_at)}</TableCell>
+                          <TableCell className="text-xs">{formatDate(apiKey.last_used_at)}</TableCell>
+                          <TableCell className="text-xs">{formatDate(apiKey.expires_at)}</TableCell>
+                          <TableCell>
+                            <Badge variant={status.variant}>{status.label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Rename"
+                              onClick={() => {
+                                setRenaming(apiKey);
+                                setNewLabel(apiKey.label);
+                              }}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Rotate"
+                              disabled={!isActive || rotateMutation.isPending}
+                              onClick={() => rotateMutation.mutate(apiKey)}
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Revoke"
+                              disabled={Boolean(apiKey.revoked_at)}
+                              onClick={() => setRevoking(apiKey)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Dialog open={Boolean(renaming)} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (renaming) renameMutation.mutate({ id: renaming.id, label: newLabel.trim() });
+            }}
+            className="space-y-4"
+          >
+            <DialogHeader>
+              <DialogTitle>Rename Key</DialogTitle>
+              <DialogDescription>Labels help you tell keys apart. The key itself does not change.</DialogDescription>
+            </DialogHeader>
+            <Input value={newLabel} onChange={(e) => setNewLabel(e.target.value)} required />
+            <DialogFooter>
+              <Button type="submit" disabled={renameMutation.isPending || !newLabel.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(revoking)} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke "{revoking?.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests using this key will be rejected immediately. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => revoking && revokeMutation.mutate(revoking.id)}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ApiKeys;
@@ -1,105 +1,492 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Progress } from "@/components/ui/progress";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
-import { Loader2, FileText, Download, CheckCircle, XCircle, Code, ChevronDown } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Sidebar, SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import {
+  Loader2,
+  FileText,
+  Download,
+  CheckCircle,
+  XCircle,
+  Code,
+  ChevronDown,
+  Square,
+  LocateFixed,
+  FolderOpen,
+  Cloud,
+  CloudOff,
+  FileArchive,
+  LayoutTemplate,
+} from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import { type ProjectAsset, type SaveStatus, useProject } from "@/hooks/use-project";
+import { useDrafts } from "@/hooks/use-drafts";
+import { cn } from "@/lib/utils";
+import AssetPreview from "@/components/AssetPreview";
+import AuthForm from "@/components/AuthForm";
+import DiagnosticsList from "@/components/DiagnosticsList";
+import DraftRecoveryDialog from "@/components/DraftRecoveryDialog";
+import EditorTabs from "@/components/EditorTabs";
+import ExportDialog, { type ExportOptions } from "@/components/ExportDialog";
+import FileTree from "@/components/FileTree";
+import PdfViewer from "@/components/PdfViewer";
+import TemplateGallery from "@/components/TemplateGallery";
+import LatexEditor, { type LatexEditorHandle } from "@/components/LatexEditor";
+import {
+  cancelCompileJob,
+  type CompileRequest,
+  DEFAULT_LATEX,
+  DEFAULT_TEX_ENGINE,
+  type Diagnostic,
+  getBackendInfo,
+  MAIN_FILE,
+  startCompileJob,
+  TEX_ENGINES,
+  type TexEngine,
+  waitForCompileJob,
+} from "@/lib/latex";
+import { findPdfLocation, findSourceLocation, loadSynctex, type PdfLocation, type SynctexData } from "@/lib/synctex";
+import type { DraftDocument } from "@/lib/drafts";
+import type { Project } from "@/lib/projects";
+import { dirname, isValidPath, isWithin, joinPath, movePath } from "@/lib/project-tree";
+import { createProjectZip } from "@/lib/project-export";
 
-const DEFAULT_LATEX = `\\documentclass{article}
-\\usepackage[utf8]{inputenc}
-\\usepackage{amsmath}
+// Idle time after the last edit before live preview recompiles
+const LIVE_PREVIEW_DELAYS = [
+  { value: "500", label: "0.5s" },
+  { value: "1000", label: "1s" },
+  { value: "2000", label: "2s" },
+  { value: "5000", label: "5s" },
+];
 
-\\title{LaTeX to PDF Converter}
-\\author{Your Name}
-\\date{\\today}
-
-\\begin{document}
-
-\\maketitle
-
-\\section{Introduction}
-This is a simple LaTeX document that demonstrates the conversion to PDF.
-
-\\subsection{Mathematics}
-Here's an equation:
-\\begin{equation}
-    E = mc^2
-\\end{equation}
-
-\\subsection{Lists}
-\\begin{itemize}
-    \\item First item
-    \\item Second item
-    \\item Third item
-\\end{itemize}
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  saved: "Saved",
+  unsaved: "Unsaved changes",
+  saving: "Saving...",
+  error: "Save failed",
+};
 
-\\end{document}`;
+function saveBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
 
 const Index = () => {
+  const { projectId } = useParams();
+  const { session, isLoading: isSessionLoading } = useSession();
   const [latex, setLatex] = useState(DEFAULT_LATEX);
+  const [engine, setEngine] = useState<TexEngine>(DEFAULT_TEX_ENGINE);
   const [isCompiling, setIsCompiling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [livePreview, setLivePreview] = useState(false);
+  const [liveDelay, setLiveDelay] = useState(LIVE_PREVIEW_DELAYS[1].value);
+  // Time until which live preview waits after being rate limited
+  const [livePausedUntil, setLivePausedUntil] = useState(0);
+  // Source the current PDF was compiled from, to tell when it is out of date.
+  // Project files are compared by reference, since every edit replaces them.
+  const [compiledSource, setCompiledSource] = useState<{
+    source: string | Record<string, string>;
+    assets: Record<string, ProjectAsset>;
+    mainFile: string;
+    engine: TexEngine;
+  } | null>(null);
+  // SyncTeX data for the current PDF; only some backends produce it
+  const [synctex, setSynctex] = useState<SynctexData | null>(null);
+  // Editor/preview navigation is only offered when the backend reports
+  // SyncTeX support
+  const { data: backendInfo } = useQuery({ queryKey: ["latex-backend"], queryFn: getBackendInfo, staleTime: Infinity });
+  const synctexSupported = backendInfo?.synctex === true;
+  // Full log of the latest compile, for exports
+  const [logUrl, setLogUrl] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [pdfHighlight, setPdfHighlight] = useState<PdfLocation | null>(null);
+  // Open project files, and the one shown in the editor
+  const [openPaths, setOpenPaths] = useState<string[]>([]);
+  const [activePath, setActivePath] = useState<string | null>(null);
+  // Line to select once the editor shows the file, e.g. after a diagnostic
+  // in another file was clicked
+  const [pendingReveal, setPendingReveal] = useState<{ path: string; line: number } | null>(null);
+  const editorRef = useRef<LatexEditorHandle>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const handleCompile = async () => {
-    setIsCompiling(true);
+  const clearOutput = useCallback(() => {
+    abortRef.current?.abort();
+    setPdfUrl(null);
+    setDiagnostics([]);
     setError(null);
     setSuccess(false);
-    setPdfUrl(null);
+    setCompiledSource(null);
+    setSynctex(null);
+    setLogUrl(null);
+  }, []);
 
-    try {
-      const { data, error: funcError } = await supabase.functions.invoke('latex-convert', {
-        body: { latex },
-      });
+  // Restoring a draft replaces the document and clears the previous output
+  const replaceDocument = useCallback(
+    (loaded: DraftDocument) => {
+      clearOutput();
+      setLatex(loaded.latex);
+      setEngine(loaded.engine);
+    },
+    [clearOutput],
+  );
 
-      if (funcError) throw funcError;
+  const handleProjectLoad = useCallback(
+    (loaded: Project) => {
+      clearOutput();
+      setEngine(loaded.engine as TexEngine);
+      setOpenPaths([loaded.main_file]);
+      setActivePath(loaded.main_file);
+    },
+    [clearOutput],
+  );
 
-      if (data.error) {
-        setError(data.error);
-        toast({
-          title: "Compilation Failed",
-          description: data.error,
-          variant: "destructive",
-        });
-      } else {
-        setSuccess(true);
-        setPdfUrl(data.pdfUrl);
-        toast({
-          title: "Success!",
-          description: "PDF compiled successfully",
-        });
+  const {
+    project,
+    loadError: projectError,
+    files: projectFiles,
+    assets: projectAssets,
+    folders: projectFolders,
+    status: saveStatus,
+    saveError,
+    setFileContent,
+    createFile,
+    uploadAsset,
+    readAsset,
+    readAssetBase64,
+    createFolder,
+    renamePath,
+    deletePath,
+    setMainFile,
+  } = useProject(session ? projectId : undefined, engine, handleProjectLoad);
+
+  // Without a project, the document is kept in local drafts instead
+  const {
+    recoverable: recoverableDrafts,
+    recover: recoverDraft,
+    discard: discardDrafts,
+  } = useDrafts(!projectId, { latex, engine }, replaceDocument);
+
+  // A project compiles all of its files from the main file, whichever tab is
+  // open; without one, the editor holds the only file.
+  const mainFile = project?.main_file ?? MAIN_FILE;
+  const source = project ? projectFiles : latex;
+  const hasSource = !!(typeof source === "string" ? source : source[mainFile])?.trim();
+  const editorPath = project ? activePath : MAIN_FILE;
+  const editorValue = project ? (activePath !== null ? projectFiles[activePath] : undefined) : latex;
+  const activeAsset = activePath !== null ? projectAssets[activePath] : undefined;
+
+  // The other project files, scanned for labels, cite keys and packages
+  const getProjectSources = () =>
+    Object.entries(projectFiles)
+      .filter(([path]) => path !== activePath)
+      .map(([, content]) => content);
+
+  const handleEditorChange = (value: string) => {
+    if (!project) setLatex(value);
+    else if (activePath !== null) setFileContent(activePath, value);
+  };
+
+  const isCompiled = (current: typeof compiledSource) =>
+    current?.source === source &&
+    current.assets === projectAssets &&
+    current.mainFile === mainFile &&
+    current.engine === engine;
+  const isStale = !!pdfUrl && !isCompiled(compiledSource);
+
+  // Diagnostics without a file come from the main file
+  const editorDiagnostics = useMemo(
+    () => diagnostics.filter((diagnostic) => (diagnostic.file ?? mainFile) === editorPath),
+    [diagnostics, editorPath, mainFile],
+  );
+
+  // Uploaded assets are sent along as base64, downloaded once per session
+  const buildCompileRequest = useCallback(
+    async (): Promise<CompileRequest> =>
+      typeof source === "string"
+        ? { latex: source, engine }
+        : {
+            files: [
+              ...Object.entries(source).map(([path, content]) => ({ path, content })),
+              ...(await Promise.all(
+                Object.entries(projectAssets).map(async ([path, asset]) => ({
+                  path,
+                  content: await readAssetBase64(asset.storagePath),
+                  encoding: "base64" as const,
+                })),
+              )),
+            ],
+            mainFile,
+            engine,
+          },
+    [engine, mainFile, projectAssets, readAssetBase64, source],
+  );
+
+  // Live preview compiles quietly: results show in the preview and problems
+  // list, but only manual compiles raise toasts. A compile that is aborted
+  // while its job runs cancels the job, so it stops using the server.
+  const compile = useCallback(
+    async ({ quiet = false } = {}) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const { signal } = controller;
+
+      setIsCompiling(true);
+      setError(null);
+      setSuccess(false);
+      setProgress(0);
+
+      let jobId: string | undefined;
+      try {
+        const request = await buildCompileRequest();
+        const started = await startCompileJob({ ...request, synctex: synctexSupported });
+        jobId = started.jobId;
+        if (!jobId) {
+          if (quiet && started.retryAfter !== undefined) {
+            setLivePausedUntil(Date.now() + started.retryAfter * 1000);
+            throw new Error(`Live preview paused: too many compiles. Retrying in ${started.retryAfter}s.`);
+          }
+          throw new Error(started.error ?? "Failed to start compilation");
+        }
+
+        const job = await waitForCompileJob(jobId, (update) => setProgress(update.progress), signal);
+        if (job.status === "cancelled") return;
+        setDiagnostics(job.diagnostics);
+        setLogUrl(job.logUrl);
+
+        if (job.status === "failed") {
+          setError(job.error);
+          if (!quiet) {
+            toast({
+              title: "Compilation Failed",
+              description: job.error,
+              variant: "destructive",
+            });
+          }
+        } else {
+          // Navigation data is optional, so the PDF still shows without it
+          const synctexData = job.synctexUrl
+            ? await loadSynctex(job.synctexUrl, signal).catch((err: unknown) => {
+                if (signal.aborted) throw err;
+                console.error("Failed to load SyncTeX data:", err);
+                return null;
+              })
+            : null;
+
+          setSuccess(!quiet);
+          setPdfUrl(job.pdfUrl);
+          setSynctex(synctexData);
+          setCompiledSource({ source, assets: projectAssets, mainFile, engine });
+          if (!quiet) {
+            toast({
+              title: "Success!",
+              description: `PDF compiled successfully with ${job.engine}`,
+            });
+          }
+        }
+      } catch (err: unknown) {
+        if (signal.aborted) {
+          if (jobId) {
+            cancelCompileJob(jobId).catch((cancelError: unknown) => {
+              console.error("Failed to cancel compile job:", cancelError);
+            });
+          }
+          return;
+        }
+        const errorMsg = err instanceof Error ? err.message : "Failed to compile LaTeX";
+        setError(errorMsg);
+        if (!quiet) {
+          toast({
+            title: "Error",
+            description: errorMsg,
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsCompiling(false);
+        }
       }
+    },
+    [buildCompileRequest, engine, mainFile, projectAssets, source, synctexSupported],
+  );
+
+  const handleCompile = () => compile();
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsCompiling(false);
+  };
+
+  // Recompile once typing stops; any edit cancels the compile in flight
+  useEffect(() => {
+    if (!livePreview || !hasSource) return;
+    if (
+      compiledSource?.source === source &&
+      compiledSource.assets === projectAssets &&
+      compiledSource.mainFile === mainFile &&
+      compiledSource.engine === engine
+    ) {
+      return;
+    }
+
+    abortRef.current?.abort();
+    const delay = Math.max(Number(liveDelay), livePausedUntil - Date.now());
+    const timer = setTimeout(() => compile({ quiet: true }), delay);
+    return () => clearTimeout(timer);
+  }, [
+    compile,
+    compiledSource,
+    engine,
+    hasSource,
+    liveDelay,
+    livePausedUntil,
+    livePreview,
+    mainFile,
+    projectAssets,
+    source,
+  ]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const openFile = (path: string) => {
+    setOpenPaths((current) => (current.includes(path) ? current : [...current, path]));
+    setActivePath(path);
+  };
+
+  const closeFile = (path: string) => {
+    const index = openPaths.indexOf(path);
+    const remaining = openPaths.filter((open) => open !== path);
+    setOpenPaths(remaining);
+    if (path === activePath) setActivePath(remaining[Math.min(index, remaining.length - 1)] ?? null);
+  };
+
+  // Selects a line, switching tabs first when it is in another project file
+  const revealLine = (path: string, line: number) => {
+    if (path === editorPath) {
+      editorRef.current?.selectLine(line);
+    } else if (project && path in projectFiles) {
+      openFile(path);
+      setPendingReveal({ path, line });
+    }
+  };
+
+  useEffect(() => {
+    if (!pendingReveal || pendingReveal.path !== activePath) return;
+    editorRef.current?.selectLine(pendingReveal.line);
+    setPendingReveal(null);
+  }, [activePath, pendingReveal]);
+
+  const handleSelectDiagnostic = (diagnostic: Diagnostic) => {
+    if (diagnostic.line) revealLine(diagnostic.file ?? mainFile, diagnostic.line);
+  };
+
+  // File tree actions report failures here, so the tree can just await them
+  const runFileAction = async (title: string, action: () => Promise<void> | void) => {
+    try {
+      await action();
     } catch (err: unknown) {
-      const errorMsg = err instanceof Error ? err.message : "Failed to compile LaTeX";
-      setError(errorMsg);
       toast({
-        title: "Error",
-        description: errorMsg,
+        title,
+        description: err instanceof Error ? err.message : "Please try again",
         variant: "destructive",
       });
-    } finally {
-      setIsCompiling(false);
     }
   };
 
+  const handleCreateFile = (path: string) =>
+    runFileAction("Could Not Create File", async () => {
+      await createFile(path);
+      openFile(path);
+    });
+
+  // Uploads one at a time, so a failure is reported for the file it concerns.
+  // Resolves to the paths that were uploaded.
+  const handleUpload = async (folder: string, files: File[]) => {
+    const uploaded: string[] = [];
+    for (const file of files) {
+      const path = joinPath(folder, file.name);
+      await runFileAction(`Could Not Upload ${file.name}`, async () => {
+        if (!isValidPath(path)) throw new Error("The file name is not a valid project path");
+        await uploadAsset(path, file);
+        uploaded.push(path);
+      });
+    }
+    return uploaded;
+  };
+
+  // Files dropped on the editor go next to the open file and are included
+  // where they were dropped. Graphics paths are relative to the project root,
+  // where the compiler runs.
+  const handleEditorDrop = async (files: File[]) => {
+    const uploaded = await handleUpload(dirname(editorPath ?? ""), files);
+    return uploaded.length > 0 ? uploaded.map((path) => `\\includegraphics{${path}}`).join("\n") : null;
+  };
+
+  const handleRenamePath = (from: string, to: string) =>
+    runFileAction("Could Not Rename", async () => {
+      await renamePath(from, to);
+      setOpenPaths((current) => current.map((path) => movePath(path, from, to)));
+      setActivePath((current) => current && movePath(current, from, to));
+    });
+
+  const handleDeletePath = (path: string) =>
+    runFileAction("Could Not Delete", async () => {
+      await deletePath(path);
+      const remaining = openPaths.filter((open) => !isWithin(open, path));
+      setOpenPaths(remaining);
+      if (activePath && isWithin(activePath, path)) setActivePath(remaining[0] ?? null);
+    });
+
+  const handleShowInPdf = (line: number) => {
+    const location = synctex && editorPath && findPdfLocation(synctex, editorPath, line);
+    if (location) {
+      setPdfHighlight(location);
+    } else {
+      toast({
+        title: "Not found in PDF",
+        description: synctex
+          ? `Line ${line} has no output in the preview`
+          : pdfUrl
+            ? "The compile backend did not produce SyncTeX data for this PDF"
+            : "Compile the document first",
+      });
+    }
+  };
+
+  const handleInverseSearch = (page: number, x: number, y: number) => {
+    const location = synctex && findSourceLocation(synctex, page, x, y);
+    if (location) revealLine(location.file, location.line);
+  };
+
   const handleDownload = async () => {
     if (pdfUrl) {
       try {
         const response = await fetch(pdfUrl);
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'document.pdf';
-        document.body.appendChild(a);
-        a.click();
-        window.URL.revokeObjectURL(url);
-        document.body.removeChild(a);
+        saveBlob(await response.blob(), 'document.pdf');
       } catch (error) {
         console.error('Download failed:', error);
         toast({
@@ -111,191 +498,480 @@ const Index = () => {
     }
   };
 
+  // Asking for a .bbl compiles the project again, and that compile's PDF and
+  // log are exported instead of the preview's. Resolves to whether the
+  // archive was downloaded.
+  const handleExport = async ({ includeOutput, includeBbl, flatten }: ExportOptions) => {
+    try {
+      const fetchResult = async (url: string | null) => {
+        if (!url) return null;
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Could not download compile output (${response.status})`);
+        return response.blob();
+      };
+
+      let output = { pdfUrl, logUrl, bblUrl: null as string | null };
+      if (includeBbl) {
+        const { jobId, error: requestError } = await startCompileJob({ ...(await buildCompileRequest()), bbl: true });
+        if (!jobId) throw new Error(requestError ?? "Failed to start compilation");
+        const job = await waitForCompileJob(jobId);
+        if (job.status === "failed") throw new Error(job.error ?? "Compilation failed");
+        if (!job.bblUrl) {
+          toast({ title: "No .bbl File", description: "The document has no bibliography, or it was not built" });
+        }
+        output = job;
+      }
+
+      const [pdf, log, bbl, assets] = await Promise.all([
+        includeOutput ? fetchResult(output.pdfUrl) : null,
+        includeOutput ? fetchResult(output.logUrl).then((blob) => blob?.text() ?? null) : null,
+        fetchResult(output.bblUrl).then((blob) => blob?.text() ?? null),
+        Promise.all(
+          Object.entries(projectAssets).map(async ([path, asset]) => ({
+            path,
+            data: await readAsset(asset.storagePath),
+          })),
+        ),
+      ]);
+
+      const zip = await createProjectZip({
+        mainFile,
+        files: project ? projectFiles : { [MAIN_FILE]: latex },
+        assets,
+        pdf,
+        log,
+        bbl,
+        flatten,
+      });
+      saveBlob(zip, `${project?.name ?? "document"}.zip`);
+      return true;
+    } catch (err: unknown) {
+      toast({
+        title: "Export Failed",
+        description: err instanceof Error ? err.message : "Could not create the archive",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  if (projectId && (isSessionLoading || !session || !project)) {
+    return (
+      <div className="min-h-screen bg-background p-4 md:p-8">
+        <div className="max-w-md mx-auto pt-12 space-y-4">
+          {isSessionLoading || (session && !projectError) ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !session ? (
+            <AuthForm description="Sign in to open this project" />
+          ) : (
+            <Alert variant="destructive" className="border-destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>{projectError ?? "Project not found"}</AlertDescription>
+            </Alert>
+          )}
+          <Button asChild variant="outline" className="w-full">
+            <Link to="/projects">
+              <FolderOpen className="w-4 h-4 mr-2" />
+              All Projects
+            </Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div className="min-h-screen bg-background p-4 md:p-8">
-      <div className="max-w-6xl mx-auto space-y-6">
-        {/* Header */}
-        <div className="text-center space-y-2">
-          <div className="flex items-center justify-center gap-2">
-            <Code className="w-8 h-8 text-primary" />
-            <h1 className="text-4xl font-bold text-foreground">LaTeX → PDF</h1>
+    <SidebarProvider>
+      {project && (
+        <Sidebar>
+          <FileTree
+            projectName={project.name}
+            files={Object.keys(projectFiles)}
+            assets={projectAssets}
+            readAsset={readAsset}
+            folders={projectFolders}
+            mainFile={mainFile}
+            activePath={activePath}
+            onOpen={openFile}
+            onCreateFile={handleCreateFile}
+            onCreateFolder={(path) => runFileAction("Could Not Create Folder", () => createFolder(path))}
+            onUpload={async (folder, files) => {
+              await handleUpload(folder, files);
+            }}
+            onRename={handleRenamePath}
+            onDelete={handleDeletePath}
+            onSetMainFile={(path) => runFileAction("Could Not Set Main File", () => setMainFile(path))}
+          />
+        </Sidebar>
+      )}
+      <SidebarInset className="min-w-0 p-4 md:p-8">
+        <div className="max-w-6xl w-full mx-auto space-y-6">
+          {/* Header */}
+          <div className="text-center space-y-2">
+            <div className="flex items-center justify-center gap-2">
+              <Code className="w-8 h-8 text-primary" />
+              <h1 className="text-4xl font-bold text-foreground">LaTeX → PDF</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Compile LaTeX documents to PDF instantly
+            </p>
           </div>
-          <p className="text-muted-foreground">
-            Compile LaTeX documents to PDF instantly
-          </p>
-        </div>
 
-        {/* Main Editor and Preview */}
-        <ResizablePanelGroup direction="horizontal" className="min-h-[600px] rounded-lg border border-border">
-          <ResizablePanel defaultSize={50} minSize={30}>
-            <Card className="h-full border-0 rounded-none bg-card">
-              <div className="p-6 space-y-4 h-full flex flex-col">
-                <div className="flex items-center justify-between">
-                  <label className="text-sm font-medium text-foreground flex items-center gap-2">
-                    <FileText className="w-4 h-4" />
-                    LaTeX Source
-                  </label>
-                  <span className="text-xs text-muted-foreground">
-                    {latex.length} characters
-                  </span>
-                </div>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              {project && <SidebarTrigger aria-label="Toggle file tree" />}
+              <Button asChild variant="outline" size="sm">
+                <Link to="/projects">
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  Projects
+                </Link>
+              </Button>
+              {!projectId && (
+                <Button variant="outline" size="sm" onClick={() => setIsGalleryOpen(true)}>
+                  <LayoutTemplate className="w-4 h-4 mr-2" />
+                  Templates
+                </Button>
+              )}
+            </div>
+            {project && (
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="truncate font-medium text-foreground">{project.name}</span>
+                <span
+                  className={cn(
+                    "flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap",
+                    saveStatus === "error" && "text-destructive",
+                  )}
+                  title={saveError ?? undefined}
+                >
+                  {saveStatus === "saving" ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : saveStatus === "error" ? (
+                    <CloudOff className="w-3 h-3" />
+                  ) : (
+                    <Cloud className="w-3 h-3" />
+                  )}
+                  {SAVE_STATUS_LABELS[saveStatus]}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {/* Main Editor and Preview */}
+          <ResizablePanelGroup direction="horizontal" className="min-h-[600px] rounded-lg border border-border">
+            <ResizablePanel defaultSize={50} minSize={30}>
+              <Card className="h-full border-0 rounded-none bg-card">
+                <div className="p-6 space-y-4 h-full flex flex-col">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-foreground flex items-center gap-2">
+                      <FileText className="w-4 h-4" />
+                      LaTeX Source
+                    </label>
+                    <div className="flex items-center gap-2">
+                      {/* Only the local backend produces SyncTeX data */}
+                      {synctexSupported && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => handleShowInPdf(editorRef.current?.getCursorLine() ?? 1)}
+                          disabled={!synctex}
+                          title={synctex ? "Show the cursor line in the preview (Ctrl+Alt+J)" : "Compile the document first"}
+                        >
+                          <LocateFixed className="w-3 h-3 mr-1" />
+                          Show in PDF
+                        </Button>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {editorValue?.length ?? 0} characters
+                      </span>
+                    </div>
+                  </div>
                 
-                <Textarea
-                  value={latex}
-                  onChange={(e) => setLatex(e.target.value)}
-                  className="code-editor flex-1 bg-[hsl(var(--code-bg))] border-[hsl(var(--code-border))] font-mono text-sm resize-none focus-visible:ring-primary"
-                  placeholder="Enter your LaTeX code here..."
-                />
-
-                <div className="flex gap-3">
-                  <Button
-                    onClick={handleCompile}
-                    disabled={isCompiling || !latex.trim()}
-                    className="flex-1 bg-primary text-primary-foreground hover:bg-primary/90"
-                  >
+                  {project && (
+                    <EditorTabs
+                      paths={openPaths}
+                      activePath={activePath}
+                      mainFile={mainFile}
+                      onSelect={setActivePath}
+                      onClose={closeFile}
+                    />
+                  )}
+
+                  {editorValue !== undefined ? (
+                    <LatexEditor
+                      // A fresh editor per file keeps undo history from mixing files
+                      key={editorPath}
+                      ref={editorRef}
+                      value={editorValue}
+                      onChange={handleEditorChange}
+                      diagnostics={editorDiagnostics}
+                      onShowInPdf={synctexSupported ? handleShowInPdf : undefined}
+                      getProjectSources={getProjectSources}
+                      onDropFiles={project ? handleEditorDrop : undefined}
+                      className="flex-1 min-h-0"
+                      placeholder="Enter your LaTeX code here..."
+                    />
+                  ) : activePath !== null && activeAsset ? (
+                    <AssetPreview
+                      key={activePath}
+                      path={activePath}
+                      asset={activeAsset}
+                      readAsset={readAsset}
+                      className="flex-1 min-h-0"
+                    />
+                  ) : (
+                    <div className="flex flex-1 items-center justify-center rounded-md border border-dashed border-border text-sm text-muted-foreground">
+                      Open a file from the sidebar
+                    </div>
+                  )}
+
+                  <div className="flex gap-3">
+                    <Select
+                      value={engine}
+                      onValueChange={(value) => setEngine(value as TexEngine)}
+                    >
+                      <SelectTrigger className="w-36" aria-label="TeX engine">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEX_ENGINES.map(({ value, label }) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
                     {isCompiling ? (
-                      <>
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        Compiling...
-                      </>
+                      <Button onClick={handleCancel} variant="outline" className="flex-1">
+                        <Square className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
                     ) : (
-                      <>
+                      <Button
+                        onClick={handleCompile}
+                        disabled={!hasSource}
+                        className="flex-1 bg-primary text-primary-foreground hover:bg-primary/90"
+                      >
                         <FileText className="w-4 h-4 mr-2" />
                         Generate PDF
-                      </>
+                      </Button>
+                    )}
+
+                    {pdfUrl && (
+                      <Button
+                        onClick={handleDownload}
+                        variant="secondary"
+                        className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Download
+                      </Button>
                     )}
-                  </Button>
 
-                  {pdfUrl && (
                     <Button
-                      onClick={handleDownload}
-                      variant="secondary"
-                      className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                      onClick={() => setIsExportOpen(true)}
+                      variant="outline"
+                      size="icon"
+                      disabled={!hasSource}
+                      aria-label="Export as ZIP"
+                      title="Export sources, assets and output as a ZIP archive"
                     >
-                      <Download className="w-4 h-4 mr-2" />
-                      Download
+                      <FileArchive className="w-4 h-4" />
                     </Button>
+                  </div>
+
+                  {isCompiling && (
+                    <div className="space-y-1">
+                      <Progress value={progress} className="h-2" />
+                      <p className="text-xs text-muted-foreground text-right">{progress}%</p>
+                    </div>
                   )}
                 </div>
-              </div>
-            </Card>
-          </ResizablePanel>
-
-          <ResizableHandle withHandle />
-
-          <ResizablePanel defaultSize={50} minSize={30}>
-            <Card className="h-full border-0 rounded-none bg-card">
-              <div className="p-6 h-full flex flex-col">
-                <h2 className="text-xl font-bold text-foreground mb-4">PDF Preview</h2>
-                {pdfUrl ? (
-                  <div className="border border-border rounded-lg overflow-hidden bg-muted flex-1">
-                    <iframe
-                      src={pdfUrl}
-                      className="w-full h-full"
-                      title="PDF Preview"
-                    />
-                  </div>
-                ) : (
-                  <div className="border border-border rounded-lg bg-muted flex-1 flex items-center justify-center">
-                    <p className="text-muted-foreground">Compile LaTeX to see preview</p>
+              </Card>
+            </ResizablePanel>
+
+            <ResizableHandle withHandle />
+
+            <ResizablePanel defaultSize={50} minSize={30}>
+              <Card className="h-full border-0 rounded-none bg-card">
+                <div className="p-6 h-full flex flex-col">
+                  <div className="flex items-center justify-between gap-3 mb-4">
+                    <div className="flex items-center gap-2">
+                      <h2 className="text-xl font-bold text-foreground">PDF Preview</h2>
+                      {isCompiling && pdfUrl ? (
+                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" aria-label="Updating preview" />
+                      ) : (
+                        isStale && (
+                          <span
+                            className="text-xs text-muted-foreground"
+                            title="The source changed since this PDF was compiled"
+                          >
+                            Out of date
+                          </span>
+                        )
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch id="live-preview" checked={livePreview} onCheckedChange={setLivePreview} />
+                      <Label htmlFor="live-preview" className="text-sm text-muted-foreground">
+                        Live preview
+                      </Label>
+                      {livePreview && (
+                        <Select value={liveDelay} onValueChange={setLiveDelay}>
+                          <SelectTrigger className="w-20 h-8" aria-label="Live preview delay">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {LIVE_PREVIEW_DELAYS.map(({ value, label }) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
                   </div>
-                )}
-              </div>
-            </Card>
-          </ResizablePanel>
-        </ResizablePanelGroup>
-
-        {/* Status Messages */}
-        {error && (
-          <Alert variant="destructive" className="border-destructive">
-            <XCircle className="h-4 w-4" />
-            <AlertDescription className="font-mono text-sm">
-              {error}
-            </AlertDescription>
-          </Alert>
-        )}
-
-        {success && (
-          <Alert className="border-primary bg-primary/10">
-            <CheckCircle className="h-4 w-4 text-primary" />
-            <AlertDescription className="text-foreground">
-              PDF compiled successfully! Click Download to get your file.
-            </AlertDescription>
-          </Alert>
-        )}
-
-        {/* API Documentation - Collapsible */}
-        <Collapsible>
-          <CollapsibleTrigger asChild>
-            <Button variant="outline" className="w-full flex items-center justify-between">
-              <span className="flex items-center gap-2">
-                <Code className="w-4 h-4" />
-                Dev Options
-              </span>
-              <ChevronDown className="w-4 h-4" />
-            </Button>
-          </CollapsibleTrigger>
-          <CollapsibleContent className="mt-4">
-            <Card className="p-6 bg-card border-border">
-          <h2 className="text-xl font-bold text-foreground mb-4">API Integration</h2>
+                  <PdfViewer
+                    url={pdfUrl}
+                    placeholder="Compile LaTeX to see preview"
+                    highlight={pdfHighlight}
+                    onInverseSearch={synctex ? handleInverseSearch : undefined}
+                    className={cn("flex-1 transition-opacity", isStale && "opacity-75")}
+                  />
+                </div>
+              </Card>
+            </ResizablePanel>
+          </ResizablePanelGroup>
+
+          <DraftRecoveryDialog drafts={recoverableDrafts} onRecover={recoverDraft} onDiscard={discardDrafts} />
+          <ExportDialog
+            open={isExportOpen}
+            onOpenChange={setIsExportOpen}
+            hasOutput={!!pdfUrl}
+            onExport={handleExport}
+          />
+          <TemplateGallery
+            open={isGalleryOpen}
+            onOpenChange={setIsGalleryOpen}
+            actionLabel="Replace Document"
+            singleFile
+            onSelect={async (template, files) => {
+              replaceDocument({ latex: files[template.mainFile], engine: template.engine });
+              return true;
+            }}
+          />
+
+          {/* Status Messages */}
+          {diagnostics.length > 0 && (
+            <DiagnosticsList diagnostics={diagnostics} onSelect={handleSelectDiagnostic} />
+          )}
+
+          {error && diagnostics.length === 0 && (
+            <Alert variant="destructive" className="border-destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription className="font-mono text-sm">
+                {error}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert className="border-primary bg-primary/10">
+              <CheckCircle className="h-4 w-4 text-primary" />
+              <AlertDescription className="text-foreground">
+                PDF compiled successfully! Click Download to get your file.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* API Documentation - Collapsible */}
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="outline" className="w-full flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <Code className="w-4 h-4" />
+                  Dev Options
+                </span>
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-4">
+              <Card className="p-6 bg-card border-border">
+            <h2 className="text-xl font-bold text-foreground mb-4">API Integration</h2>
           
-          <div className="space-y-4 text-sm">
-            <div>
-              <h3 className="font-semibold text-foreground mb-2">Endpoint</h3>
-              <code className="block bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] text-primary">
-                POST /api/convert
-              </code>
-            </div>
+            <div className="space-y-4 text-sm">
+              <div>
+                <h3 className="font-semibold text-foreground mb-2">Endpoint</h3>
+                <code className="block bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] text-primary">
+                  POST /api/convert
+                </code>
+              </div>
 
-            <div>
-              <h3 className="font-semibold text-foreground mb-2">Authentication</h3>
-              <code className="block bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] text-muted-foreground">
-                x-api-key: YOUR_API_KEY
-              </code>
-            </div>
+              <div>
+                <h3 className="font-semibold text-foreground mb-2">Authentication</h3>
+                <code className="block bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] text-muted-foreground">
+                  x-api-key: YOUR_API_KEY
+                </code>
+                <p className="text-muted-foreground mt-2">
+                  Create, rotate and revoke keys on the{" "}
+                  <Link to="/keys" className="text-primary underline">
+                    API Keys
+                  </Link>{" "}
+                  page and track their compiles on the{" "}
+                  <Link to="/usage" className="text-primary underline">
+                    Usage
+                  </Link>{" "}
+                  page.
+                </p>
+              </div>
 
-            <div>
-              <h3 className="font-semibold text-foreground mb-2">cURL Example</h3>
-              <pre className="bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] overflow-x-auto text-xs text-muted-foreground">
-{`curl -X POST https://mynsuwuznnjqwhaurcmk.supabase.co/functions/v1/latex-convert \\
-  -H "x-api-key: YOUR_API_KEY" \\
-  -H "Content-Type: application/json" \\
-  -d '{"latex": "\\\\documentclass{article}\\\\begin{document}Hello\\\\end{document}"}'`}
-              </pre>
-            </div>
+              <div>
+                <h3 className="font-semibold text-foreground mb-2">cURL Example</h3>
+                <pre className="bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] overflow-x-auto text-xs text-muted-foreground">
+  {`curl -X POST https://mynsuwuznnjqwhaurcmk.supabase.co/functions/v1/latex-convert \\
+    -H "x-api-key: YOUR_API_KEY" \\
+    -H "Content-Type: application/json" \\
+    -d '{"latex": "\\\\documentclass{article}\\\\begin{document}Hello\\\\end{document}"}'`}
+                </pre>
+              </div>
 
-            <div>
-              <h3 className="font-semibold text-foreground mb-2">JavaScript Example</h3>
-              <pre className="bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] overflow-x-auto text-xs text-muted-foreground">
-{`const response = await fetch(
-  'https://mynsuwuznnjqwhaurcmk.supabase.co/functions/v1/latex-convert',
-  {
-    method: 'POST',
-    headers: {
-      'x-api-key': 'YOUR_API_KEY',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      latex: '\\\\documentclass{article}\\\\begin{document}Hello\\\\end{document}'
-    }),
-  }
-);
-const data = await response.json();`}
-              </pre>
-            </div>
+              <div>
+                <h3 className="font-semibold text-foreground mb-2">JavaScript Example</h3>
+                <pre className="bg-[hsl(var(--code-bg))] p-3 rounded border border-[hsl(var(--code-border))] overflow-x-auto text-xs text-muted-foreground">
+  {`const response = await fetch(
+    'https://mynsuwuznnjqwhaurcmk.supabase.co/functions/v1/latex-convert',
+    {
+      method: 'POST',
+      headers: {
+        'x-api-key': 'YOUR_API_KEY',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        latex: '\\\\documentclass{article}\\\\begin{document}Hello\\\\end{document}'
+      }),
+    }
+  );
+  const data = await response.json();`}
+                </pre>
+              </div>
 
-            <div>
-              <h3 className="font-semibold text-foreground mb-2">Binary PDF Support</h3>
-              <p className="text-muted-foreground">
-                External apps can use <code className="bg-[hsl(var(--code-bg))] p-1 rounded border border-[hsl(var(--code-border))] text-primary">?format=binary</code> or set <code className="bg-[hsl(var(--code-bg))] p-1 rounded border border-[hsl(var(--code-border))] text-primary">Accept: application/pdf</code> to receive the PDF directly.
-              </p>
+              <div>
+                <h3 className="font-semibold text-foreground mb-2">Binary PDF Support</h3>
+                <p className="text-muted-foreground">
+                  External apps can use <code className="bg-[hsl(var(--code-bg))] p-1 rounded border border-[hsl(var(--code-border))] text-primary">?format=binary</code> or set <code className="bg-[hsl(var(--code-bg))] p-1 rounded border border-[hsl(var(--code-border))] text-primary">Accept: application/pdf</code> to receive the PDF directly.
+                </p>
+              </div>
             </div>
-          </div>
-            </Card>
-          </CollapsibleContent>
-        </Collapsible>
-      </div>
-    </div>
+              </Card>
+            </CollapsibleContent>
+          </Collapsible>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
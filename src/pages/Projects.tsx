@@ -0,0 +1,388 @@
+import { useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ArrowLeft,
+  Copy,
+  FileArchive,
+  FolderOpen,
+  LayoutTemplate,
+  Loader2,
+  LogOut,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import AuthForm from "@/components/AuthForm";
+import TemplateGallery from "@/components/TemplateGallery";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import {
+  createProject,
+  createProjectWithFiles,
+  deleteProject,
+  duplicateProject,
+  importProject,
+  listProjects,
+  type Project,
+  updateProject,
+} from "@/lib/projects";
+import { readProjectArchive } from "@/lib/project-import";
+import type { Template } from "@/lib/templates";
+
+function formatDate(value: string): string {
+  return format(new Date(value), "MMM d, yyyy HH:mm");
+}
+
+const Projects = () => {
+  const { session, isLoading: isSessionLoading } = useSession();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  const [name, setName] = useState("");
+  const [search, setSearch] = useState("");
+  const [renaming, setRenaming] = useState<Project | null>(null);
+  const [newName, setNewName] = useState("");
+  const [deleting, setDeleting] = useState<Project | null>(null);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: projects = [], isLoading } = useQuery({
+    queryKey: ["projects", session?.user.id],
+    queryFn: listProjects,
+    enabled: Boolean(session),
+  });
+
+  const filtered = useMemo(() => {
+    const needle = search.trim().toLocaleLowerCase();
+    return needle ? projects.filter((project) => project.name.toLocaleLowerCase().includes(needle)) : projects;
+  }, [projects, search]);
+
+  const onError = (title: string) => (err: unknown) => {
+    toast({
+      title,
+      description: err instanceof Error ? err.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["projects"] });
+
+  const createMutation = useMutation({
+    mutationFn: () => createProject(name.trim()),
+    onSuccess: (project) => {
+      invalidate();
+      navigate(`/projects/${project.id}`);
+    },
+    onError: onError("Could Not Create Project"),
+  });
+
+  // Named after the filled-in title unless a name was entered
+  const templateMutation = useMutation({
+    mutationFn: ({ template, files, title }: { template: Template; files: Record<string, string>; title?: string }) =>
+      createProjectWithFiles(name.trim() || title?.trim() || template.name, template.mainFile, files, {
+        engine: template.engine,
+      }),
+    onSuccess: (project) => {
+      invalidate();
+      navigate(`/projects/${project.id}`);
+    },
+    onError: onError("Could Not Create Project"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const archive = await readProjectArchive(file);
+      return { project: await importProject(archive), skipped: archive.skipped };
+    },
+    onSuccess: ({ project, skipped }) => {
+      invalidate();
+      if (skipped.length > 0) {
+        toast({
+          title: "Some Files Were Skipped",
+          description: `Only LaTeX sources and other text files up to 100KB, and PNG, JPG, PDF or EPS images, can be imported: ${skipped.join(", ")}`,
+        });
+      }
+      navigate(`/projects/${project.id}`);
+    },
+    onError: onError("Could Not Import Project"),
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: duplicateProject,
+    onSuccess: () => invalidate(),
+    onError: onError("Could Not Duplicate Project"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => updateProject(id, { name }),
+    onSuccess: () => {
+      setRenaming(null);
+      invalidate();
+    },
+    onError: onError("Could Not Rename Project"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteProject(id),
+    onSuccess: () => {
+      setDeleting(null);
+      invalidate();
+    },
+    onError: onError("Could Not Delete Project"),
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button asChild variant="ghost" size="icon">
+              <Link to="/" aria-label="Back to editor">
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <FolderOpen className="w-6 h-6 text-primary" />
+            <h1 className="text-2xl font-bold text-foreground">Projects</h1>
+          </div>
+          {session && (
+            <Button variant="outline" size="sm" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          )}
+        </div>
+
+        {isSessionLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !session ? (
+          <AuthForm description="Sign in to save and open your projects" />
+        ) : (
+          <>
+            <Card className="p-6 bg-card border-border">
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createMutation.mutate();
+                }}
+              >
+                <h2 className="text-lg font-semibold text-foreground">New Project</h2>
+                <div className="flex gap-3">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="project-name" className="sr-only">
+                      Name
+                    </Label>
+                    <Input
+                      id="project-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="e.g. Thesis"
+                      required
+                    />
+                  </div>
+                  <Button type="submit" disabled={createMutation.isPending || !name.trim()}>
+                    {createMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Plus className="w-4 h-4 mr-2" />
+                    )}
+                    Create Project
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setIsGalleryOpen(true)}>
+                    <LayoutTemplate className="w-4 h-4 mr-2" />
+                    From Template
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={importMutation.isPending}
+                    onClick={() => importInputRef.current?.click()}
+                    title="Create a project from a ZIP archive, e.g. an Overleaf download or arXiv source"
+                  >
+                    {importMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <FileArchive className="w-4 h-4 mr-2" />
+                    )}
+                    Import ZIP
+                  </Button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".zip,application/zip"
+                    hidden
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) importMutation.mutate(file);
+                    }}
+                  />
+                </div>
+              </form>
+            </Card>
+
+            <Card className="bg-card border-border">
+              <div className="p-4 border-b border-border">
+                <div className="relative max-w-sm">
+                  <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search projects"
+                    className="pl-9"
+                    aria-label="Search projects"
+                  />
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Engine</TableHead>
+                    <TableHead>Last Modified</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Loading projects...
+                      </TableCell>
+                    </TableRow>
+                  ) : filtered.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        {projects.length === 0 ? "No projects yet" : "No projects match your search"}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filtered.map((project) => (
+                      <TableRow key={project.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/projects/${project.id}`} className="hover:underline">
+                            {project.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-xs">{project.engine}</TableCell>
+                        <TableCell className="text-xs">{formatDate(project.updated_at)}</TableCell>
+                        <TableCell className="text-xs">{formatDate(project.created_at)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Rename"
+                            onClick={() => {
+                              setRenaming(project);
+                              setNewName(project.name);
+                            }}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Duplicate"
+                            disabled={duplicateMutation.isPending}
+                            onClick={() => duplicateMutation.mutate(project)}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" aria-label="Delete" onClick={() => setDeleting(project)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Dialog open={Boolean(renaming)} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (renaming) renameMutation.mutate({ id: renaming.id, name: newName.trim() });
+            }}
+            className="space-y-4"
+          >
+            <DialogHeader>
+              <DialogTitle>Rename Project</DialogTitle>
+              <DialogDescription>The project's files are not affected.</DialogDescription>
+            </DialogHeader>
+            <Input value={newName} onChange={(e) => setNewName(e.target.value)} required />
+            <DialogFooter>
+              <Button type="submit" disabled={renameMutation.isPending || !newName.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <TemplateGallery
+        open={isGalleryOpen}
+        onOpenChange={setIsGalleryOpen}
+        actionLabel="Create Project"
+        onSelect={(template, files, values) =>
+          templateMutation.mutateAsync({ template, files, title: values.title }).then(
+            () => true,
+            () => false,
+          )
+        }
+      />
+
+      <AlertDialog open={Boolean(deleting)} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project and all of its files will be deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteMutation.mutate(deleting.id)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Projects;
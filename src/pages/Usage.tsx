@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft, BarChart3, CalendarIcon, Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import AuthForm from "@/components/AuthForm";
+import { supabase } from "@/integrations/supabase/client";
+import { useSession } from "@/hooks/use-session";
+import { listApiKeys } from "@/lib/api-keys";
+import { getDailyUsage, summarizeUsage } from "@/lib/usage";
+
+const ALL_KEYS = "all";
+
+const compilesConfig = {
+  compiles: { label: "Compiles", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const failureRateConfig = {
+  failureRate: { label: "Failure rate (%)", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const latencyConfig = {
+  p50Ms: { label: "p50 (ms)", color: "hsl(var(--primary))" },
+  p95Ms: { label: "p95 (ms)", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const formatDay = (day: string) => format(new Date(`${day}T00:00:00`), "MMM d");
+
+const Usage = () => {
+  const { session, isLoading: isSessionLoading } = useSession();
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  }));
+  const [keyId, setKeyId] = useState<string>(ALL_KEYS);
+
+  const from = range?.from;
+  const to = range?.to ?? range?.from;
+
+  const keysQuery = useQuery({
+    queryKey: ["api-keys", session?.user.id],
+    queryFn: listApiKeys,
+    enabled: !!session,
+  });
+
+  const usageQuery = useQuery({
+    queryKey: ["usage", session?.user.id, from?.toDateString(), to?.toDateString(), keyId],
+    queryFn: () => getDailyUsage({ from: from!, to: to!, keyId: keyId === ALL_KEYS ? null : keyId }),
+    enabled: !!session && !!from && !!to,
+  });
+
+  const days = usageQuery.data ?? [];
+  const summary = summarizeUsage(days);
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button asChild variant="ghost" size="icon">
+              <Link to="/" aria-label="Back to editor">
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <BarChart3 className="w-6 h-6 text-primary" />
+            <h1 className="text-2xl font-bold text-foreground">Usage</h1>
+          </div>
+          {session && (
+            <Button variant="outline" size="sm" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          )}
+        </div>
+
+        {isSessionLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !session ? (
+          <AuthForm description="Sign in to view compile usage" />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-[260px] justify-start text-left font-normal">
+                    <CalendarIcon className="w-4 h-4 mr-2" />
+                    {from && to ? `${format(from, "MMM d, yyyy")} – ${format(to, "MMM d, yyyy")}` : "Pick a date range"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    defaultMonth={from}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+
+              <Select value={keyId} onValueChange={setKeyId}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="API key" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_KEYS}>All compiles</SelectItem>
+                  {keysQuery.data?.map((apiKey) => (
+                    <SelectItem key={apiKey.id} value={apiKey.id}>
+                      {apiKey.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Button asChild variant="link" size="sm">
+                <Link to="/keys">Manage API keys</Link>
+              </Button>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <Card className="p-4 bg-card border-border">
+                <p className="text-sm text-muted-foreground">Compiles</p>
+                <p className="text-2xl font-bold text-foreground">{summary.compiles}</p>
+              </Card>
+              <Card className="p-4 bg-card border-border">
+                <p className="text-sm text-muted-foreground">Failure rate</p>
+                <p className="text-2xl font-bold text-foreground">
+                  {summary.compiles > 0 ? `${((summary.failures / summary.compiles) * 100).toFixed(1)}%` : "—"}
+                </p>
+              </Card>
+              <Card className="p-4 bg-card border-border">
+                <p className="text-sm text-muted-foreground">Cache hits</p>
+                <p className="text-2xl font-bold text-foreground">{summary.cacheHits}</p>
+              </Card>
+            </div>
+
+            {usageQuery.isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : usageQuery.isError ? (
+              <Card className="p-6 bg-card border-border text-sm text-destructive">
+                Failed to load usage: {usageQuery.error.message}
+              </Card>
+            ) : (
+              <>
+                <Card className="p-6 bg-card border-border space-y-4">
+                  <h2 className="text-lg font-semibold text-foreground">Compiles per day</h2>
+                  <ChartContainer config={compilesConfig} className="h-[240px] w-full">
+                    <BarChart data={days}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                      <Bar dataKey="compiles" fill="var(--color-compiles)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </Card>
+
+                <div className="grid gap-6 md:grid-cols-2">
+                  <Card className="p-6 bg-card border-border space-y-4">
+                    <h2 className="text-lg font-semibold text-foreground">Failure rate</h2>
+                    <ChartContainer config={failureRateConfig} className="h-[220px] w-full">
+                      <LineChart data={days}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={40} unit="%" />
+                        <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                        <Line
+                          dataKey="failureRate"
+                          stroke="var(--color-failureRate)"
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls
+                        />
+                      </LineChart>
+                    </ChartContainer>
+                  </Card>
+
+                  <Card className="p-6 bg-card border-border space-y-4">
+                    <h2 className="text-lg font-semibold text-foreground">Latency</h2>
+                    <ChartContainer config={latencyConfig} className="h-[220px] w-full">
+                      <LineChart data={days}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={50} />
+                        <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Line dataKey="p50Ms" stroke="var(--color-p50Ms)" strokeWidth={2} dot={false} connectNulls />
+                        <Line dataKey="p95Ms" stroke="var(--color-p95Ms)" strokeWidth={2} dot={false} connectNulls />
+                      </LineChart>
+                    </ChartContainer>
+                  </Card>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Usage;
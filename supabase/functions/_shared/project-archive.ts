@@ -0,0 +1,55 @@
+// Rules for turning an Overleaf or arXiv style ZIP archive into a project,
+// shared by imports in the web app and ZIP uploads to latex-convert
+
+import type { ZipEntry } from "./zip.ts";
+
+// Including folders and skipped files such as __MACOSX metadata
+export const MAX_ARCHIVE_ENTRIES = 1000;
+
+// Operating system metadata that archivers add alongside the real files, and
+// latexmk configuration (Overleaf adds one), which compiles refuse
+const IGNORED_PATH = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|\.?latexmkrc$)/i;
+// A \documentclass that is not commented out
+const DOCUMENT_CLASS = /^[^%\n]*\\documentclass\b/m;
+const PREFERRED_MAIN_FILES = ['main.tex', 'document.tex', 'ms.tex'];
+// Sources, bibliographies, packages and data files read by TeX. Files are
+// sorted by extension rather than by whether they decode as UTF-8, so an SVG
+// or a PostScript file is never taken for text.
+const TEXT_FILE = /\.(tex|ltx|bib|bbl|bst|bbx|cbx|lbx|dbx|sty|cls|clo|cfg|def|fd|dtx|ins|ist|tikz|pgf|txt|md|csv|dat)$/i;
+
+export interface ArchiveFile extends ZipEntry {
+  // Path in the archive, before the shared root folder was dropped
+  rawPath: string;
+}
+
+// Drops ignored entries, and the folder every entry is in when the archive
+// was made by zipping a folder. Paths still need validating.
+export function archiveFiles(entries: ZipEntry[]): ArchiveFile[] {
+  const kept = entries.filter((entry) => !IGNORED_PATH.test(entry.path));
+  const first = kept[0]?.path.split('/')[0];
+  const root = first && kept.every((entry) => entry.path.startsWith(`${first}/`)) ? `${first}/` : '';
+  return kept.map(({ path, data }) => ({ path: path.slice(root.length), rawPath: path, data }));
+}
+
+// The contents of a text file (by extension) within `maxSize`, or null for
+// binary files, larger files and text that is not valid UTF-8
+export function decodeTextFile(path: string, data: Uint8Array, maxSize: number): string | null {
+  if (!TEXT_FILE.test(path) || data.length > maxSize) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+// The .tex file with a \documentclass closest to the archive root, preferring
+// the usual main file names. Takes the text files' contents by path.
+export function findMainFile(texts: Record<string, string>): string | undefined {
+  const rank = (path: string) => {
+    const index = PREFERRED_MAIN_FILES.indexOf(path.slice(path.lastIndexOf('/') + 1));
+    return index === -1 ? PREFERRED_MAIN_FILES.length : index;
+  };
+  return Object.keys(texts)
+    .filter((path) => path.endsWith('.tex') && DOCUMENT_CLASS.test(texts[path]))
+    .sort((a, b) => a.split('/').length - b.split('/').length || rank(a) - rank(b) || a.localeCompare(b))[0];
+}
@@ -0,0 +1,230 @@
+// Template rendering shared by the editor's template gallery and the
+// latex-convert function's /render and /batch endpoints. The language is a
+// logic-less Mustache subset:
+//
+//   {{name}}         value, with LaTeX special characters escaped
+//   {{& name}}       value inserted as LaTeX, unescaped
+//   {{#name}}..{{/name}}  repeated for each item of a list, rendered once for
+//                    any other truthy value with it as the context
+//   {{^name}}..{{/name}}  rendered when the value is missing, false, zero or
+//                    empty
+//   {{! comment}}    left out
+//
+// Names can be dotted (client.address.city) and {{.}} is the current list
+// item. Triple braces are not a tag as in Mustache, since LaTeX needs them
+// around values: \title{{{title}}} puts the escaped title in \title{...}.
+// Lines holding only a section or comment tag are removed, so loops over
+// table rows do not leave blank lines behind.
+
+type Node =
+  | { type: 'text'; text: string }
+  | { type: 'value' | 'raw'; name: string }
+  | { type: 'section' | 'inverted'; name: string; children: Node[] };
+
+export interface RenderOptions {
+  // LaTeX inserted for a {{name}} or {{& name}} whose value is missing
+  fallback?: (name: string) => string | undefined;
+}
+
+// Invalid templates and data, and renders over the limits; the message can be
+// shown to the user as is
+export class TemplateError extends Error {}
+
+const TAG = /\{\{(?:![\s\S]*?|([#^/&]?)\s*([\w-]+(?:\.[\w-]+)*|\.)\s*)\}\}/y;
+// Same as the text file limit of compiles
+const MAX_OUTPUT_SIZE = 100000;
+// Nodes visited and list items iterated per file. Sections that render
+// nothing never reach the output cap, so this bounds their work instead.
+const MAX_RENDER_STEPS = 200000;
+
+// Characters with a special meaning in LaTeX, and how to typeset them
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '%': '\\%',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\{}$&#%_~^]/g, (char) => LATEX_SPECIALS[char]);
+}
+
+function templateError(path: string, source: string, index: number, reason: string): TemplateError {
+  const line = source.slice(0, index).split('\n').length;
+  return new TemplateError(`Invalid template ${path}:${line}: ${reason}`);
+}
+
+function parse(path: string, source: string): Node[] {
+  const root: Node[] = [];
+  const open: { name: string; index: number; parent: Node[] }[] = [];
+  let nodes = root;
+  let text = '';
+  // Whether `text` starts at the beginning of a line
+  let textStartsLine = true;
+  let index = 0;
+
+  while (index < source.length) {
+    let start = source.indexOf('{{', index);
+    if (start === -1) {
+      text += source.slice(index);
+      break;
+    }
+    // Braces before a tag belong to the LaTeX around it
+    while (source[start + 2] === '{') start++;
+    text += source.slice(index, start);
+
+    TAG.lastIndex = start;
+    const match = TAG.exec(source);
+    if (!match) {
+      // Not a tag, e.g. {{\bf x}}
+      text += source[start];
+      index = start + 1;
+      continue;
+    }
+    const sigil = match[0].startsWith('{{!') ? '!' : match[1];
+    const name = match[2];
+    let end = TAG.lastIndex;
+
+    if (sigil === '!' || sigil === '#' || sigil === '^' || sigil === '/') {
+      const lineStart = text.lastIndexOf('\n') + 1;
+      const rest = /^[ \t]*(\r?\n|$)/.exec(source.slice(end));
+      if ((lineStart > 0 || textStartsLine) && /^[ \t]*$/.test(text.slice(lineStart)) && rest) {
+        text = text.slice(0, lineStart);
+        end += rest[0].length;
+        textStartsLine = true;
+      } else {
+        textStartsLine = false;
+      }
+    } else {
+      textStartsLine = false;
+    }
+
+    if (text) nodes.push({ type: 'text', text });
+    text = '';
+
+    if (sigil === '#' || sigil === '^') {
+      const section: Node = { type: sigil === '#' ? 'section' : 'inverted', name, children: [] };
+      nodes.push(section);
+      open.push({ name, index: start, parent: nodes });
+      nodes = section.children;
+    } else if (sigil === '/') {
+      const section = open.pop();
+      if (!section || section.name !== name) {
+        throw templateError(path, source, start, `{{/${name}}} does not close an open section`);
+      }
+      nodes = section.parent;
+    } else if (sigil !== '!') {
+      nodes.push({ type: sigil === '&' ? 'raw' : 'value', name });
+    }
+    index = end;
+  }
+
+  if (text) nodes.push({ type: 'text', text });
+  const unclosed = open.pop();
+  if (unclosed) throw templateError(path, source, unclosed.index, `{{#${unclosed.name}}} is never closed`);
+  return root;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(value: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+// The first segment is looked up from the innermost context outwards, the
+// others inside the value found.
+function lookup(contexts: unknown[], name: string): unknown {
+  if (name === '.') return contexts[contexts.length - 1];
+  const [first, ...rest] = name.split('.');
+  let value: unknown;
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (isRecord(context) && hasOwn(context, first)) {
+      value = context[first];
+      break;
+    }
+  }
+  for (const key of rest) {
+    value = isRecord(value) && hasOwn(value, key) ? value[key] : undefined;
+  }
+  return value;
+}
+
+function isFalsy(value: unknown): boolean {
+  return value === undefined || value === null || value === false || value === 0 || value === '' ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+// Renders one file. Output is capped at the text file limit, so nested loops
+// over large lists cannot exhaust memory, and work at MAX_RENDER_STEPS.
+export function renderTemplate(
+  path: string,
+  source: string,
+  data: Record<string, unknown>,
+  { fallback }: RenderOptions = {},
+): string {
+  const output: string[] = [];
+  let size = 0;
+  let steps = 0;
+  const step = () => {
+    if (++steps > MAX_RENDER_STEPS) {
+      throw new TemplateError(`Template too complex to render: ${path} (max ${MAX_RENDER_STEPS} steps)`);
+    }
+  };
+  const write = (text: string) => {
+    size += text.length;
+    if (size > MAX_OUTPUT_SIZE) {
+      throw new TemplateError(`Rendered file too large: ${path} (max 100KB for text files)`);
+    }
+    output.push(text);
+  };
+
+  const render = (nodes: Node[], contexts: unknown[]) => {
+    for (const node of nodes) {
+      step();
+      if (node.type === 'text') {
+        write(node.text);
+        continue;
+      }
+      const value = lookup(contexts, node.name);
+      if (node.type === 'section') {
+        if (isFalsy(value)) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+          step();
+          render(node.children, [...contexts, item]);
+        }
+      } else if (node.type === 'inverted') {
+        if (isFalsy(value)) render(node.children, contexts);
+      } else if (value === undefined || value === null) {
+        const text = fallback?.(node.name);
+        if (text) write(text);
+      } else {
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+          throw new TemplateError(`Invalid data for ${path}: ${node.name} is not a string, number or boolean`);
+        }
+        write(node.type === 'raw' ? String(value) : escapeLatex(String(value)));
+      }
+    }
+  };
+
+  render(parse(path, source), [data]);
+  return output.join('');
+}
+
+// Names of the tags outside any section, in order of first use: the values a
+// form needs to ask for. Throws TemplateError for invalid templates.
+export function templateNames(path: string, source: string): string[] {
+  const names = new Set<string>();
+  for (const node of parse(path, source)) {
+    if (node.type !== 'text' && node.name !== '.') names.add(node.name);
+  }
+  return [...names];
+}
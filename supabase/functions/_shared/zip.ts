@@ -0,0 +1,222 @@
+// Minimal ZIP reader and writer shared by the web app and the latex-convert
+// function, using the platform's deflate support. Only stored and deflated
+// entries are supported. Sizes are counted while inflating rather than
+// trusted from the archive, so a zip bomb is stopped as soon as it exceeds
+// the limits.
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntrySize: number;
+  maxTotalSize: number;
+}
+
+// Invalid archives and archives over the limits; the message can be shown
+// to the user as is
+export class ZipError extends Error {}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8_NAMES = 0x800;
+
+function invalidZip(reason: string): ZipError {
+  return new ZipError(`Invalid ZIP archive: ${reason}`);
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes followed by a comment of up to 64KB
+  const last = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= last; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw invalidZip('end of central directory not found');
+}
+
+function concat(parts: Uint8Array[], size: number): Uint8Array {
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function inflate(data: Uint8Array, limit: number, path: string): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > limit) {
+        await reader.cancel();
+        throw new ZipError(`File too large once unpacked: ${path}`);
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof ZipError) throw error;
+    throw invalidZip(`corrupt data for ${path}`);
+  }
+  return concat(chunks, size);
+}
+
+// Reads every file entry, skipping folders. Paths are returned as stored;
+// callers validate them.
+export async function readZip(bytes: Uint8Array, limits: ZipLimits): Promise<ZipEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 22) throw invalidZip('too short');
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) throw invalidZip('ZIP64 archives are not supported');
+  if (entryCount > limits.maxEntries) {
+    throw new ZipError(`Too many entries in ZIP archive (max ${limits.maxEntries})`);
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw invalidZip('corrupt central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & FLAG_ENCRYPTED) throw invalidZip(`${path} is encrypted`);
+
+    if (localOffset + 30 > view.byteLength || view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw invalidZip(`corrupt header for ${path}`);
+    }
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (start + compressedSize > view.byteLength) throw invalidZip(`truncated data for ${path}`);
+    const compressed = bytes.subarray(start, start + compressedSize);
+
+    const limit = Math.min(limits.maxEntrySize, limits.maxTotalSize - totalSize);
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      if (compressed.length > limit) throw new ZipError(`File too large once unpacked: ${path}`);
+      data = compressed;
+    } else if (method === METHOD_DEFLATED) {
+      data = await inflate(compressed, limit, path);
+    } else {
+      throw invalidZip(`${path} uses an unsupported compression method`);
+    }
+
+    totalSize += data.length;
+    entries.push({ path, data });
+  }
+  return entries;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// MS-DOS date and time, in local time as archivers expect
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Entries are deflated unless that does not make them smaller, as for
+// images and PDFs. `compress: false` stores every entry as is, for archives
+// of files known to be compressed already.
+export async function createZip(
+  entries: ZipEntry[],
+  { modified = new Date(), compress = true }: { modified?: Date; compress?: boolean } = {},
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const deflated = compress ? await deflate(entry.data) : null;
+    const isDeflated = deflated !== null && deflated.length < entry.data.length;
+    const body = isDeflated ? deflated : entry.data;
+    const crc = crc32(entry.data);
+
+    // Fields shared by the local header (from offset 4) and the central
+    // directory header (from offset 6)
+    const fields = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 2, FLAG_UTF8_NAMES, true);
+      view.setUint16(at + 4, isDeflated ? METHOD_DEFLATED : METHOD_STORED, true);
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, date, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, body.length, true);
+      view.setUint32(at + 18, entry.data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_FILE_HEADER, true);
+    fields(localView, 4);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    headerView.setUint16(4, 20, true);
+    fields(headerView, 6);
+    headerView.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, body);
+    central.push(header);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = central.reduce((size, header) => size + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return concat([...parts, ...central, end], offset + centralSize + end.length);
+}
@@ -0,0 +1,119 @@
+// API key authentication for the latex-convert function
+
+import { sha256Hex, timingSafeEqual } from "./hash.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+export const SCOPES = ['compile', 'jobs:read', 'projects:write'] as const;
+
+export type Scope = typeof SCOPES[number];
+
+export interface Caller {
+  // Null for browser callers and the legacy LATEX_API_KEY
+  keyId: string | null;
+  // The key's owner, or the user signed in to the web app; null for
+  // anonymous callers and the legacy LATEX_API_KEY
+  ownerId: string | null;
+  scopes: readonly Scope[];
+  // Secret webhook payloads are signed with; null for anonymous and browser
+  // callers, and for the legacy key without LATEX_WEBHOOK_SECRET
+  webhookSecret: string | null;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message);
+  }
+}
+
+// Keys look like ltx_<8 hex chars>_<secret>. The first two parts are stored
+// in clear as key_prefix so the row can be found without the secret.
+const API_KEY_PATTERN = /^(ltx_[0-9a-f]{8})_[A-Za-z0-9_-]{32,}$/;
+
+// Browser callers can compile and poll their jobs, but not create projects
+const BROWSER_SCOPES: readonly Scope[] = ['compile', 'jobs:read'];
+
+const ANONYMOUS: Caller = { keyId: null, ownerId: null, scopes: BROWSER_SCOPES, webhookSecret: null };
+
+async function verifyStoredKey(apiKey: string): Promise<Caller | null> {
+  const match = API_KEY_PATTERN.exec(apiKey);
+  if (!match) return null;
+
+  const supabase = getServiceClient();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, owner_id, key_hash, scopes, webhook_secret, expires_at, revoked_at')
+    .eq('key_prefix', match[1])
+    .maybeSingle();
+  if (error) throw new Error(`Failed to look up API key: ${error.message}`);
+
+  // Hash even when no row matched so both paths take the same time
+  const keyHash = await sha256Hex(apiKey);
+  if (!data || !timingSafeEqual(keyHash, data.key_hash)) return null;
+  if (data.revoked_at) return null;
+  if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  await supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  return {
+    keyId: data.id,
+    ownerId: data.owner_id,
+    scopes: data.scopes,
+    webhookSecret: data.webhook_secret,
+  };
+}
+
+// supabase-js sends the signed-in user's access token, or the anon key when
+// nobody is signed in. Only tokens for the authenticated role are looked up.
+async function verifySessionToken(authorization: string | null): Promise<Caller | null> {
+  const token = /^Bearer (\S+)$/i.exec(authorization ?? '')?.[1];
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (payload.role !== 'authenticated') return null;
+  } catch {
+    return null;
+  }
+
+  const { data, error } = await getServiceClient().auth.getUser(token);
+  if (error || !data.user) return null;
+  return { keyId: null, ownerId: data.user.id, scopes: BROWSER_SCOPES, webhookSecret: null };
+}
+
+// Resolves the caller from the x-api-key header. Keys are checked against the
+// api_keys table first and then against the legacy LATEX_API_KEY secret.
+// Requests without a key belong to the user signed in to the web app, if
+// any, and are anonymous otherwise. When REQUIRE_API_KEY is set, requests
+// without a key need a valid session instead.
+export async function authenticate(req: Request): Promise<Caller> {
+  const apiKey = req.headers.get('x-api-key');
+
+  if (!apiKey) {
+    const sessionCaller = await verifySessionToken(req.headers.get('authorization'));
+    if (sessionCaller) return sessionCaller;
+    if (Deno.env.get('REQUIRE_API_KEY') === 'true') {
+      throw new AuthError('Unauthorized: API key or sign-in required', 401);
+    }
+    return ANONYMOUS;
+  }
+
+  const caller = await verifyStoredKey(apiKey);
+  if (caller) return caller;
+
+  // Its callbacks are signed with LATEX_WEBHOOK_SECRET, never with the key
+  // itself; without that secret it cannot request callbacks
+  const legacyKey = Deno.env.get('LATEX_API_KEY');
+  if (legacyKey && timingSafeEqual(apiKey, legacyKey)) {
+    return { keyId: null, ownerId: null, scopes: SCOPES, webhookSecret: Deno.env.get('LATEX_WEBHOOK_SECRET') || null };
+  }
+
+  throw new AuthError('Unauthorized: Invalid API key', 401);
+}
+
+export function requireScope(caller: Caller, scope: Scope) {
+  if (!caller.scopes.includes(scope)) {
+    throw new AuthError(`Forbidden: API key lacks the ${scope} scope`, 403);
+  }
+}
@@ -0,0 +1,47 @@
+import type { Diagnostic } from "../log-parser.ts";
+import type { CompileBackend } from "./types.ts";
+
+// Smallest well-formed single-page PDF, used as the output of every
+// successful fake compile
+const FAKE_PDF = `%PDF-1.4
+1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj
+2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj
+3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >> endobj
+trailer << /Root 1 0 R >>
+%%EOF
+`;
+
+// Deterministic stand-in for a real compiler so the function can run and be
+// tested offline. A main file without \documentclass, \begin{document} or
+// \end{document} fails; every other project succeeds.
+export function createFakeBackend(): CompileBackend {
+  return {
+    name: 'fake',
+    synctex: false,
+
+    compile(project, { engine }) {
+      const main = project.files.find((f) => f.path === project.mainFile)!;
+      const required = ['\\documentclass', '\\begin{document}', '\\end{document}'];
+      const missing = required.filter((token) => !main.content.includes(token));
+
+      const diagnostics: Diagnostic[] = missing.map((token) => ({
+        severity: 'error',
+        message: `LaTeX Error: Missing ${token}.`,
+        file: project.mainFile,
+        line: 1,
+      }));
+      const log = [
+        `This is fake ${engine}`,
+        `(./${project.mainFile}`,
+        ...diagnostics.flatMap((d) => [`! ${d.message}`, `l.${d.line}`]),
+        ')',
+      ].join('\n');
+
+      return Promise.resolve({
+        pdf: missing.length === 0 ? new TextEncoder().encode(FAKE_PDF) : null,
+        log,
+        diagnostics,
+      });
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { createFakeBackend } from "./fake.ts";
+import { createLocalBackend } from "./local.ts";
+import { createTexliveNetBackend } from "./texlive-net.ts";
+import type { CompileBackend } from "./types.ts";
+
+export type { CompileBackend, CompileOptions, CompileResult } from "./types.ts";
+
+// Selects the compile backend from the environment:
+//   LATEX_BACKEND        texlive-net (default), local or fake
+//   TEXLIVE_URL          endpoint for texlive-net
+//   LATEXMK_PATH         latexmk executable for local
+//   LATEX_TIMEOUT_MS     per-compile time limit for local
+export function getCompileBackend(): CompileBackend {
+  const backend = Deno.env.get('LATEX_BACKEND') ?? 'texlive-net';
+
+  switch (backend) {
+    case 'texlive-net':
+      return createTexliveNetBackend(Deno.env.get('TEXLIVE_URL'));
+    case 'local':
+      return createLocalBackend({
+        command: Deno.env.get('LATEXMK_PATH'),
+        timeoutMs: Number(Deno.env.get('LATEX_TIMEOUT_MS')) || undefined,
+      });
+    case 'fake':
+      return createFakeBackend();
+    default:
+      throw new Error(`Unknown LATEX_BACKEND: ${backend}`);
+  }
+}
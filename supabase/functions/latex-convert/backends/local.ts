@@ -0,0 +1,126 @@
+import type { Engine } from "../engines.ts";
+import { type CompileProject, decodeBase64 } from "../files.ts";
+import { parseTexLog } from "../log-parser.ts";
+import type { CompileBackend } from "./types.ts";
+
+export interface LocalBackendOptions {
+  // latexmk executable, resolved through PATH unless absolute
+  command?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+const ENGINE_FLAGS: Record<Engine, string[]> = {
+  pdflatex: ['-pdf'],
+  xelatex: ['-xelatex'],
+  lualatex: ['-lualatex'],
+  platex: ['-pdfdvi', '-latex=platex', '-e', '$dvipdf=q/dvipdfmx %O -o %D %S/'],
+};
+
+function stripExtension(path: string): string {
+  return path.replace(/\.[^./]+$/, '');
+}
+
+async function writeProject(dir: string, { files }: CompileProject) {
+  for (const file of files) {
+    const target = `${dir}/${file.path}`;
+    const parent = target.slice(0, target.lastIndexOf('/'));
+    await Deno.mkdir(parent, { recursive: true });
+    if (file.encoding === 'base64') {
+      await Deno.writeFile(target, decodeBase64(file.content));
+    } else {
+      await Deno.writeTextFile(target, file.content);
+    }
+  }
+}
+
+async function readOptional(path: string): Promise<Uint8Array | null> {
+  try {
+    return await Deno.readFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+async function gunzipText(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return await new Response(stream).text();
+}
+
+// SyncTeX records absolute input paths; rewrite the ones inside the build
+// directory relative to it so they match the project's file names.
+function relativizeSynctex(synctex: string, dir: string): string {
+  return synctex.replace(/^(Input:\d+:)(.*)$/gm, (line, prefix: string, path: string) => {
+    if (!path.startsWith(`${dir}/`)) return line;
+    return prefix + path.slice(dir.length + 1).replace(/(^|\/)(\.\/)+/g, '$1');
+  });
+}
+
+// Runs latexmk from a local TeX Live installation. Each compile gets its own
+// temporary directory, shell escape is disabled and TeX is restricted to
+// reading and writing inside that directory. -norc keeps latexmk from
+// reading configuration files, which are Perl.
+export function createLocalBackend({
+  command = 'latexmk',
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+}: LocalBackendOptions = {}): CompileBackend {
+  return {
+    name: 'local',
+    synctex: true,
+
+    async compile(project, { engine, signal, synctex, bbl }) {
+      const dir = await Deno.makeTempDir({ prefix: 'latex-convert-' });
+      const jobName = stripExtension(project.mainFile.split('/').pop()!);
+      const timeout = AbortSignal.timeout(timeoutMs);
+
+      try {
+        await writeProject(dir, project);
+
+        const { success } = await new Deno.Command(command, {
+          args: [
+            '-norc',
+            ...ENGINE_FLAGS[engine],
+            '-interaction=nonstopmode',
+            '-halt-on-error',
+            '-no-shell-escape',
+            ...(synctex ? ['-synctex=1'] : []),
+            `-jobname=${jobName}`,
+            `./${project.mainFile}`,
+          ],
+          cwd: dir,
+          clearEnv: true,
+          env: {
+            PATH: Deno.env.get('PATH') ?? '/usr/bin:/bin',
+            HOME: dir,
+            TEXMFVAR: `${dir}/.texmf-var`,
+            openin_any: 'p',
+            openout_any: 'p',
+            shell_escape: 'f',
+          },
+          stdin: 'null',
+          stdout: 'null',
+          stderr: 'null',
+          signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        }).output();
+
+        const logBytes = await readOptional(`${dir}/${jobName}.log`);
+        const log = logBytes ? new TextDecoder().decode(logBytes) : '';
+        const pdf = success ? await readOptional(`${dir}/${jobName}.pdf`) : null;
+        const synctexBytes = pdf && synctex ? await readOptional(`${dir}/${jobName}.synctex.gz`) : null;
+        const bblBytes = pdf && bbl ? await readOptional(`${dir}/${jobName}.bbl`) : null;
+
+        return {
+          pdf,
+          log,
+          diagnostics: parseTexLog(log),
+          synctex: synctexBytes ? relativizeSynctex(await gunzipText(synctexBytes), dir) : null,
+          bbl: bblBytes ? new TextDecoder().decode(bblBytes) : null,
+        };
+      } finally {
+        await Deno.remove(dir, { recursive: true }).catch(() => {});
+      }
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import type { Engine } from "../engines.ts";
+import { type CompileProject, ProjectValidationError, toBlob } from "../files.ts";
+import { parseTexLog } from "../log-parser.ts";
+import type { CompileBackend } from "./types.ts";
+
+const DEFAULT_TEXLIVE_URL = 'https://texlive.net/cgi-bin/latexcgi';
+
+// TeXLive.net always compiles the first uploaded file, which it expects to
+// be called document.tex.
+const TEXLIVE_MAIN_FILE = 'document.tex';
+
+function buildTexliveForm({ files, mainFile }: CompileProject, engine: Engine): FormData {
+  const formData = new FormData();
+  const main = files.find((f) => f.path === mainFile)!;
+  const others = files.filter((f) => f.path !== mainFile);
+
+  if (mainFile !== TEXLIVE_MAIN_FILE && others.some((f) => f.path === TEXLIVE_MAIN_FILE)) {
+    throw new ProjectValidationError(`${TEXLIVE_MAIN_FILE} is reserved when another main file is used`);
+  }
+
+  for (const file of [{ ...main, path: TEXLIVE_MAIN_FILE }, ...others]) {
+    formData.append('filecontents[]', toBlob(file), file.path);
+    formData.append('filename[]', file.path);
+  }
+  formData.append('engine', engine);
+  formData.append('return', 'pdf');
+  return formData;
+}
+
+export function createTexliveNetBackend(url = DEFAULT_TEXLIVE_URL): CompileBackend {
+  return {
+    name: 'texlive-net',
+    synctex: false,
+
+    async compile(project, { engine, signal }) {
+      // POST avoids URL length limits
+      const response = await fetch(url, {
+        method: 'POST',
+        body: buildTexliveForm(project, engine),
+        redirect: 'follow',
+        headers: {
+          'Accept': 'application/pdf',
+        },
+        signal,
+      });
+
+      // TeXLive.net answers with the compile log instead of a PDF on failure
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!response.ok || !contentType.includes('application/pdf')) {
+        const log = await response.text();
+        // Report diagnostics against the caller's main file rather than the
+        // document.tex it was uploaded as
+        const diagnostics = parseTexLog(log).map((diagnostic) =>
+          diagnostic.file === TEXLIVE_MAIN_FILE ? { ...diagnostic, file: project.mainFile } : diagnostic
+        );
+        return { pdf: null, log, diagnostics };
+      }
+
+      // TeXLive.net does not return the log for successful compiles
+      return { pdf: new Uint8Array(await response.arrayBuffer()), log: '', diagnostics: [] };
+    },
+  };
+}
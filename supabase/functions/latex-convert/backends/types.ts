@@ -0,0 +1,38 @@
+import type { Engine } from "../engines.ts";
+import type { CompileProject } from "../files.ts";
+import type { Diagnostic } from "../log-parser.ts";
+
+export interface CompileOptions {
+  engine: Engine;
+  signal?: AbortSignal;
+  // Set to false to bypass the compile cache
+  cache?: boolean;
+  // Ask the backend for SyncTeX data; backends that cannot produce it ignore this
+  synctex?: boolean;
+  // Ask for the .bbl file BibTeX or Biber wrote, e.g. for arXiv submissions;
+  // backends that cannot produce it ignore this
+  bbl?: boolean;
+}
+
+export interface CompileResult {
+  // Null when compilation failed
+  pdf: Uint8Array | null;
+  log: string;
+  diagnostics: Diagnostic[];
+  // Uncompressed SyncTeX data with input paths relative to the project root,
+  // when requested and supported by the backend
+  synctex?: string | null;
+  // The main file's .bbl, when requested and the document has a bibliography
+  bbl?: string | null;
+  // Whether the result was served from the compile cache
+  cacheHit?: boolean;
+}
+
+// A compiler service that turns a validated project into a PDF. Backends
+// report diagnostics against the caller's file names.
+export interface CompileBackend {
+  name: string;
+  // Whether compile() can return SyncTeX data
+  synctex: boolean;
+  compile(project: CompileProject, options: CompileOptions): Promise<CompileResult>;
+}
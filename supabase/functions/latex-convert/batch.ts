@@ -0,0 +1,419 @@
+// Batch compiles: many documents, or one template with many rows of data,
+// compiled a few at a time into a ZIP of PDFs or one merged PDF. Every
+// document gets its own status, so one that fails does not fail the others.
+//
+// BATCH_CONCURRENCY sets how many documents compile at once (default 4),
+// BATCH_MAX_DOCUMENTS how many one batch may hold (default 100, at most 500)
+// and BATCH_MAX_BODY_BYTES how large its request may be (default 20MB).
+// Asynchronous batches expire with compile jobs (COMPILE_JOB_TTL_SECONDS).
+
+import { PDFDocument } from "https://esm.sh/pdf-lib@1.17.1";
+import { isRecord } from "../_shared/template.ts";
+import { createZip } from "../_shared/zip.ts";
+import type { Caller } from "./auth.ts";
+import type { CompileBackend, CompileOptions } from "./backends/index.ts";
+import type { Engine } from "./engines.ts";
+import { type CompileProject, normalizeProject, ProjectValidationError } from "./files.ts";
+import {
+  type CompileJobStatus,
+  isExpired,
+  jobExpiry,
+  removeResults,
+  signResultUrl,
+  storeResult,
+} from "./jobs.ts";
+import type { Diagnostic } from "./log-parser.ts";
+import { renderTemplateProject, resolveTemplate } from "./render.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 500;
+const DEFAULT_BATCH_BODY_SIZE = 20 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+const EXPIRED_BATCHES_PER_SWEEP = 100;
+
+export type BatchOutput = 'zip' | 'merged';
+
+export interface BatchRequest {
+  // Documents shaped like compile requests (latex, or files and mainFile),
+  // each with an optional name for its PDF
+  documents?: unknown;
+  // Or a template (see render.ts) compiled once per row of data
+  templateId?: unknown;
+  template?: unknown;
+  rows?: unknown;
+  // Extra files compiled with every row, and the row field naming its PDF
+  files?: unknown;
+  nameField?: unknown;
+  output?: unknown;
+}
+
+interface BatchEntry {
+  name: string;
+  // Built when the document's turn comes, so an invalid one only fails itself
+  build: () => CompileProject;
+}
+
+export interface PreparedBatch {
+  entries: BatchEntry[];
+  output: BatchOutput;
+  // The stored template's engine, used unless the request names one
+  engine?: Engine;
+}
+
+export interface BatchItem {
+  index: number;
+  name: string;
+  status: 'succeeded' | 'failed';
+  error: string | null;
+  // Errors of a failed compile
+  diagnostics: Diagnostic[];
+  // Where the document's pages are in a merged PDF
+  pages: { first: number; count: number } | null;
+}
+
+export interface BatchResult {
+  items: BatchItem[];
+  succeeded: number;
+  failed: number;
+  // Null when no document compiled
+  output: Uint8Array | null;
+}
+
+interface BatchRow {
+  id: string;
+  status: CompileJobStatus;
+  progress: number;
+  engine: string;
+  output: BatchOutput;
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: BatchItem[];
+  error: string | null;
+  output_path: string | null;
+  key_id: string | null;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  expires_at: string;
+}
+
+export interface BatchJob {
+  id: string;
+  status: CompileJobStatus;
+  progress: number;
+  engine: string;
+  output: BatchOutput;
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: BatchItem[];
+  error: string | null;
+  // Signed URL of the ZIP or merged PDF
+  outputUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+function batchConcurrency(): number {
+  const value = Number(Deno.env.get('BATCH_CONCURRENCY'));
+  return Number.isInteger(value) && value > 0 ? Math.min(value, MAX_CONCURRENCY) : DEFAULT_CONCURRENCY;
+}
+
+function maxBatchSize(): number {
+  const value = Number(Deno.env.get('BATCH_MAX_DOCUMENTS'));
+  return Number.isInteger(value) && value > 0 ? Math.min(value, MAX_BATCH_SIZE) : DEFAULT_BATCH_SIZE;
+}
+
+// Batch requests are read up to this many bytes, before any document is
+// charged for
+export function maxBatchBodySize(): number {
+  const value = Number(Deno.env.get('BATCH_MAX_BODY_BYTES'));
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_BATCH_BODY_SIZE;
+}
+
+function checkSize(list: unknown, field: string): unknown[] {
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new ProjectValidationError(`Invalid request: ${field} must be a non-empty array`);
+  }
+  const max = maxBatchSize();
+  if (list.length > max) {
+    throw new ProjectValidationError(`Too many documents in batch (max ${max})`);
+  }
+  return list;
+}
+
+// File names for the ZIP: characters other than letters, digits, dots,
+// dashes and underscores become underscores, and repeated names are numbered.
+function uniqueNames(names: (string | undefined)[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, index) => {
+    const base = (name ?? '')
+      .replace(/\.pdf$/i, '')
+      .replace(/[^\p{L}\p{N}._-]+/gu, '_')
+      .replace(/^[._]+/, '')
+      .slice(0, 100) || `document-${String(index + 1).padStart(3, '0')}`;
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) unique = `${base}-${n}`;
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+// Checks the request's shape; the documents themselves are only validated
+// when they compile. Returns null when the stored template does not exist or
+// is not visible to the caller.
+export async function prepareBatch(body: BatchRequest, ownerId: string | null): Promise<PreparedBatch | null> {
+  const output = body.output ?? 'zip';
+  if (output !== 'zip' && output !== 'merged') {
+    throw new ProjectValidationError('Invalid request: output must be zip or merged');
+  }
+
+  if (body.documents !== undefined) {
+    if (body.rows !== undefined || body.templateId !== undefined || body.template !== undefined) {
+      throw new ProjectValidationError('Invalid request: send either documents or a template with rows');
+    }
+    const documents = checkSize(body.documents, 'documents');
+    const names = uniqueNames(
+      documents.map((document) => (isRecord(document) && typeof document.name === 'string' ? document.name : undefined)),
+    );
+    return {
+      entries: documents.map((document, index) => ({
+        name: names[index],
+        build: () => normalizeProject(isRecord(document) ? document : {}),
+      })),
+      output,
+    };
+  }
+
+  if (body.rows === undefined) {
+    throw new ProjectValidationError('Invalid request: documents, or a template with rows, is required');
+  }
+  const rows = checkSize(body.rows, 'rows');
+  const extraFiles = body.files ?? [];
+  if (!Array.isArray(extraFiles)) {
+    throw new ProjectValidationError('Invalid request: files must be an array');
+  }
+  const nameField = body.nameField;
+  if (nameField !== undefined && typeof nameField !== 'string') {
+    throw new ProjectValidationError('Invalid request: nameField must be a string');
+  }
+
+  const template = await resolveTemplate(body, ownerId);
+  if (!template) return null;
+  const names = uniqueNames(rows.map((row) => {
+    const value = typeof nameField === 'string' && isRecord(row) ? row[nameField] : undefined;
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+  }));
+  return {
+    entries: rows.map((row, index) => ({
+      name: names[index],
+      build: () => renderTemplateProject(template, row, extraFiles),
+    })),
+    output,
+    engine: template.engine,
+  };
+}
+
+// Documents whose PDF cannot be read back are marked as failed
+async function mergePdfs(items: BatchItem[], pdfs: (Uint8Array | null)[]): Promise<Uint8Array | null> {
+  const merged = await PDFDocument.create();
+  for (const item of items) {
+    const pdf = pdfs[item.index];
+    if (!pdf) continue;
+    try {
+      const source = await PDFDocument.load(pdf);
+      const pages = await merged.copyPages(source, source.getPageIndices());
+      item.pages = { first: merged.getPageCount() + 1, count: pages.length };
+      for (const page of pages) merged.addPage(page);
+    } catch (error) {
+      item.status = 'failed';
+      item.error = `Failed to merge PDF: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return merged.getPageCount() > 0 ? await merged.save() : null;
+}
+
+// Compiles every document, BATCH_CONCURRENCY at a time. Results keep the
+// request's order whatever order the compiles finish in.
+export async function compileBatch(
+  batch: PreparedBatch,
+  options: CompileOptions,
+  backend: CompileBackend,
+  onProgress?: (done: number) => Promise<void>,
+): Promise<BatchResult> {
+  const items: BatchItem[] = [];
+  const pdfs: (Uint8Array | null)[] = batch.entries.map(() => null);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < batch.entries.length) {
+      const index = next++;
+      const { name, build } = batch.entries[index];
+      const item: BatchItem = { index, name, status: 'failed', error: null, diagnostics: [], pages: null };
+      try {
+        const { pdf, diagnostics } = await backend.compile(build(), options);
+        if (pdf) {
+          item.status = 'succeeded';
+          pdfs[index] = pdf;
+        } else {
+          item.error = 'LaTeX compilation failed. Please check your LaTeX syntax.';
+          item.diagnostics = diagnostics.filter((d) => d.severity === 'error');
+        }
+      } catch (error) {
+        if (!(error instanceof ProjectValidationError)) console.error('Batch document failed:', index, error);
+        item.error = error instanceof Error ? error.message : String(error);
+      }
+      items[index] = item;
+      done++;
+      await onProgress?.(done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(batchConcurrency(), batch.entries.length) }, worker));
+
+  let output: Uint8Array | null = null;
+  if (batch.output === 'merged') {
+    output = await mergePdfs(items, pdfs);
+  } else if (pdfs.some(Boolean)) {
+    // PDFs are compressed already
+    output = await createZip(
+      items
+        .filter((item) => item.status === 'succeeded')
+        .map((item) => ({ path: `${item.name}.pdf`, data: pdfs[item.index]! })),
+      { compress: false },
+    );
+  }
+
+  const succeeded = items.filter((item) => item.status === 'succeeded').length;
+  return { items, succeeded, failed: items.length - succeeded, output };
+}
+
+async function updateBatch(id: string, changes: Partial<BatchRow>) {
+  const { error } = await getServiceClient()
+    .from('compile_batches')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw new Error(`Failed to update batch ${id}: ${error.message}`);
+}
+
+export async function createBatchJob(batch: PreparedBatch, engine: Engine, caller: Caller): Promise<string> {
+  const { data, error } = await getServiceClient()
+    .from('compile_batches')
+    .insert({
+      status: 'queued',
+      progress: 0,
+      engine,
+      output: batch.output,
+      total: batch.entries.length,
+      key_id: caller.keyId,
+      owner_id: caller.ownerId,
+      expires_at: jobExpiry(),
+    })
+    .select('id')
+    .single();
+  if (error) throw new Error(`Failed to create batch: ${error.message}`);
+  return data.id;
+}
+
+// Compiles the batch in the background and stores the output next to the
+// compile job results. Never throws: failures are stored on the batch for
+// the status endpoint to report.
+export async function runBatchJob(id: string, batch: PreparedBatch, options: CompileOptions, backend: CompileBackend) {
+  try {
+    await updateBatch(id, { status: 'running' });
+
+    // Progress is written in steps of 5% rather than after every document
+    let written = 0;
+    const result = await compileBatch(batch, options, backend, async (done) => {
+      const progress = Math.floor((done / batch.entries.length) * 90);
+      if (progress - written < 5) return;
+      written = progress;
+      await updateBatch(id, { progress }).catch((error) => console.error('Failed to record batch progress:', error));
+    });
+
+    let outputPath: string | null = null;
+    if (result.output) {
+      outputPath = batch.output === 'merged' ? `batch-${id}.pdf` : `batch-${id}.zip`;
+      await storeResult(
+        outputPath,
+        result.output,
+        batch.output === 'merged' ? 'application/pdf' : 'application/zip',
+        'batch output',
+      );
+    }
+
+    await updateBatch(id, {
+      status: result.succeeded > 0 ? 'succeeded' : 'failed',
+      progress: 100,
+      succeeded: result.succeeded,
+      failed: result.failed,
+      items: result.items,
+      output_path: outputPath,
+      error: result.succeeded > 0 ? null : 'No document in the batch compiled',
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Batch failed:', id, error);
+    await updateBatch(id, {
+      status: 'failed',
+      progress: 100,
+      error: error instanceof Error ? error.message : String(error),
+      finished_at: new Date().toISOString(),
+    }).catch((updateError) => console.error('Failed to record batch failure:', updateError));
+  }
+
+  await deleteExpiredBatches().catch((error) => console.error('Failed to delete expired batches:', error));
+}
+
+async function deleteExpiredBatches() {
+  const supabase = getServiceClient();
+  const { data, error } = await supabase
+    .from('compile_batches')
+    .select('id, output_path')
+    .lte('expires_at', new Date().toISOString())
+    .order('expires_at')
+    .limit(EXPIRED_BATCHES_PER_SWEEP);
+  if (error) throw new Error(`Failed to list expired batches: ${error.message}`);
+  if (data.length === 0) return;
+
+  await removeResults(data.map((row) => row.output_path));
+  const { error: deleteError } = await supabase
+    .from('compile_batches')
+    .delete()
+    .in('id', data.map((row) => row.id));
+  if (deleteError) throw new Error(`Failed to delete expired batches: ${deleteError.message}`);
+}
+
+// Visible to the same callers as compile jobs (see getCompileJob)
+export async function getBatchJob(id: string, ownerId: string | null): Promise<BatchJob | null> {
+  const { data, error } = await getServiceClient()
+    .from('compile_batches')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load batch ${id}: ${error.message}`);
+
+  const row = data as BatchRow | null;
+  if (!row || row.owner_id !== ownerId || isExpired(row)) return null;
+  return {
+    id: row.id,
+    status: row.status,
+    progress: row.progress,
+    engine: row.engine,
+    output: row.output,
+    total: row.total,
+    succeeded: row.succeeded,
+    failed: row.failed,
+    items: row.items,
+    error: row.error,
+    outputUrl: await signResultUrl(row.output_path),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  };
+}
@@ -0,0 +1,184 @@
+// Content-addressed cache of successful compiles
+
+import type { CompileBackend, CompileOptions } from "./backends/index.ts";
+import type { CompileProject } from "./files.ts";
+import { sha256Hex } from "./hash.ts";
+import type { Diagnostic } from "./log-parser.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+export interface CacheSettings {
+  ttlSeconds: number;
+  // Total size of cached PDFs and SyncTeX data; least recently used entries are evicted first
+  maxBytes: number;
+}
+
+const CACHE_BUCKET = 'compile-cache';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+
+export function getCacheSettings(): CacheSettings {
+  const ttl = Deno.env.get('COMPILE_CACHE_TTL_SECONDS');
+  const maxBytes = Deno.env.get('COMPILE_CACHE_MAX_BYTES');
+  return {
+    ttlSeconds: ttl !== undefined ? Number(ttl) : DEFAULT_TTL_SECONDS,
+    maxBytes: maxBytes !== undefined ? Number(maxBytes) : DEFAULT_MAX_BYTES,
+  };
+}
+
+// SHA-256 over everything that affects the output: the files in path order,
+// the main file, the engine, whether SyncTeX data was requested and the
+// backend producing the PDF.
+export async function computeCacheKey(
+  project: CompileProject,
+  { engine, synctex = false }: CompileOptions,
+  backendName: string,
+): Promise<string> {
+  const files = [...project.files]
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+    .map(({ path, content, encoding = 'utf8' }) => [path, encoding, content]);
+  const canonical = JSON.stringify({ files, mainFile: project.mainFile, engine, synctex, backend: backendName });
+  return sha256Hex(canonical);
+}
+
+interface CacheEntry {
+  pdf: Uint8Array;
+  diagnostics: Diagnostic[];
+  synctex: string | null;
+}
+
+type StoredEntry = { key: string; pdf_path: string; synctex_path: string | null };
+
+async function readEntry(key: string): Promise<CacheEntry | null> {
+  const supabase = getServiceClient();
+  const { data, error } = await supabase
+    .from('compile_cache')
+    .select('pdf_path, synctex_path, diagnostics, expires_at')
+    .eq('key', key)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read compile cache: ${error.message}`);
+  if (!data) return null;
+
+  if (new Date(data.expires_at).getTime() <= Date.now()) {
+    await deleteEntries([{ key, pdf_path: data.pdf_path, synctex_path: data.synctex_path }]);
+    return null;
+  }
+
+  const { data: blob, error: downloadError } = await supabase.storage.from(CACHE_BUCKET).download(data.pdf_path);
+  if (downloadError) throw new Error(`Failed to read cached PDF: ${downloadError.message}`);
+
+  let synctex: string | null = null;
+  if (data.synctex_path) {
+    const { data: synctexBlob, error: synctexError } = await supabase.storage
+      .from(CACHE_BUCKET)
+      .download(data.synctex_path);
+    if (synctexError) throw new Error(`Failed to read cached SyncTeX data: ${synctexError.message}`);
+    synctex = await synctexBlob.text();
+  }
+
+  await supabase.from('compile_cache').update({ last_hit_at: new Date().toISOString() }).eq('key', key);
+
+  return { pdf: new Uint8Array(await blob.arrayBuffer()), diagnostics: data.diagnostics ?? [], synctex };
+}
+
+async function deleteEntries(entries: StoredEntry[]) {
+  if (entries.length === 0) return;
+  const supabase = getServiceClient();
+  const paths = entries.flatMap(({ pdf_path, synctex_path }) => (synctex_path ? [pdf_path, synctex_path] : [pdf_path]));
+  await supabase.storage.from(CACHE_BUCKET).remove(paths);
+  await supabase.from('compile_cache').delete().in('key', entries.map((entry) => entry.key));
+}
+
+// Drops expired entries and then the least recently used ones until the
+// cache fits in maxBytes.
+async function evict(maxBytes: number) {
+  const { data, error } = await getServiceClient()
+    .from('compile_cache')
+    .select('key, pdf_path, synctex_path, size_bytes, expires_at')
+    .order('last_hit_at', { ascending: false });
+  if (error) throw new Error(`Failed to list compile cache: ${error.message}`);
+
+  const now = Date.now();
+  let total = 0;
+  const stale = data.filter((entry) => {
+    if (new Date(entry.expires_at).getTime() <= now) return true;
+    total += entry.size_bytes;
+    return total > maxBytes;
+  });
+  await deleteEntries(stale);
+}
+
+async function writeEntry(key: string, { pdf, diagnostics, synctex }: CacheEntry, settings: CacheSettings) {
+  const synctexBytes = synctex ? new TextEncoder().encode(synctex) : null;
+  const size = pdf.length + (synctexBytes?.length ?? 0);
+  if (size > settings.maxBytes) return;
+
+  const supabase = getServiceClient();
+  const pdfPath = `${key}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from(CACHE_BUCKET)
+    .upload(pdfPath, pdf, { contentType: 'application/pdf', upsert: true });
+  if (uploadError) throw new Error(`Failed to store cached PDF: ${uploadError.message}`);
+
+  let synctexPath: string | null = null;
+  if (synctexBytes) {
+    synctexPath = `${key}.synctex`;
+    const { error: synctexError } = await supabase.storage
+      .from(CACHE_BUCKET)
+      .upload(synctexPath, synctexBytes, { contentType: 'text/plain', upsert: true });
+    if (synctexError) throw new Error(`Failed to store cached SyncTeX data: ${synctexError.message}`);
+  }
+
+  const now = new Date();
+  const { error } = await supabase.from('compile_cache').upsert({
+    key,
+    pdf_path: pdfPath,
+    synctex_path: synctexPath,
+    diagnostics,
+    size_bytes: size,
+    created_at: now.toISOString(),
+    last_hit_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + settings.ttlSeconds * 1000).toISOString(),
+  });
+  if (error) throw new Error(`Failed to store compile cache entry: ${error.message}`);
+
+  await evict(settings.maxBytes);
+}
+
+// Wraps a backend so successful compiles are served from the cache. Failed
+// compiles are never cached, and compiles asking for a .bbl file, which the
+// cache does not store, bypass it. Cache errors are logged and fall through to the
+// wrapped backend so a storage outage does not break compilation.
+export function withCache(backend: CompileBackend, settings: CacheSettings): CompileBackend {
+  if (settings.ttlSeconds <= 0 || settings.maxBytes <= 0) return backend;
+
+  return {
+    name: backend.name,
+    synctex: backend.synctex,
+
+    async compile(project, options) {
+      if (options.cache === false || options.bbl) {
+        return { ...(await backend.compile(project, options)), cacheHit: false };
+      }
+
+      const key = await computeCacheKey(project, options, backend.name);
+
+      try {
+        const entry = await readEntry(key);
+        if (entry) {
+          return { ...entry, log: '', cacheHit: true };
+        }
+      } catch (error) {
+        console.error('Compile cache lookup failed:', error);
+      }
+
+      const result = await backend.compile(project, options);
+      if (result.pdf) {
+        const entry = { pdf: result.pdf, diagnostics: result.diagnostics, synctex: result.synctex ?? null };
+        await writeEntry(key, entry, settings)
+          .catch((error) => console.error('Compile cache write failed:', error));
+      }
+      return { ...result, cacheHit: false };
+    },
+  };
+}
@@ -0,0 +1,11 @@
+// TeX engines accepted by the compile endpoint
+
+export const ENGINES = ['pdflatex', 'xelatex', 'lualatex', 'platex'] as const;
+
+export type Engine = typeof ENGINES[number];
+
+export const DEFAULT_ENGINE: Engine = 'pdflatex';
+
+export function isEngine(value: unknown): value is Engine {
+  return typeof value === 'string' && (ENGINES as readonly string[]).includes(value);
+}
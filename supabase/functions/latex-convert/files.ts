@@ -0,0 +1,148 @@
+// Project file handling for multi-file compilation
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+  // Text files are sent as-is, binary files (images, fonts) as base64
+  encoding?: 'utf8' | 'base64';
+}
+
+export interface CompileProject {
+  files: ProjectFile[];
+  mainFile: string;
+}
+
+export const MAX_FILE_COUNT = 100;
+export const MAX_TEXT_FILE_SIZE = 100000;
+export const MAX_BINARY_FILE_SIZE = 2 * 1024 * 1024;
+export const MAX_PROJECT_SIZE = 5 * 1024 * 1024;
+
+export const DEFAULT_MAIN_FILE = 'document.tex';
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export class ProjectValidationError extends Error {}
+
+// latexmk configuration files are Perl, so uploading one would run code
+const LATEXMK_RC_FILE = /(^|\/)\.?latexmkrc$/i;
+
+// Only plain relative paths are allowed so files cannot escape the
+// compiler's working directory. Segments cannot start with a dash, so a path
+// is never read as a command-line option.
+export function isSafePath(path: string): boolean {
+  if (!path || path.length > 255) return false;
+  if (path.startsWith('/') || path.includes('\\') || path.includes('\0')) return false;
+  return path
+    .split('/')
+    .every((segment) => segment !== '' && segment !== '.' && segment !== '..' && !segment.startsWith('-'));
+}
+
+export function decodeBase64(content: string): Uint8Array {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  // Chunked, since spreading a large array into fromCharCode overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fileSize(file: ProjectFile): number {
+  return file.encoding === 'base64'
+    ? Math.floor((file.content.length * 3) / 4)
+    : new TextEncoder().encode(file.content).length;
+}
+
+// Builds a project from either the legacy single `latex` field or a
+// `files` list with an optional `mainFile`.
+export function normalizeProject(body: {
+  latex?: unknown;
+  files?: unknown;
+  mainFile?: unknown;
+}): CompileProject {
+  if (body.files === undefined) {
+    if (!body.latex || typeof body.latex !== 'string') {
+      throw new ProjectValidationError('Invalid request: latex or files field is required');
+    }
+    if (body.latex.length > MAX_TEXT_FILE_SIZE) {
+      throw new ProjectValidationError('LaTeX document too large (max 100KB)');
+    }
+    return {
+      files: [{ path: DEFAULT_MAIN_FILE, content: body.latex, encoding: 'utf8' }],
+      mainFile: DEFAULT_MAIN_FILE,
+    };
+  }
+
+  if (!Array.isArray(body.files) || body.files.length === 0) {
+    throw new ProjectValidationError('Invalid request: files must be a non-empty array');
+  }
+  if (body.files.length > MAX_FILE_COUNT) {
+    throw new ProjectValidationError(`Too many files (max ${MAX_FILE_COUNT})`);
+  }
+
+  const files: ProjectFile[] = [];
+  const seen = new Set<string>();
+  let totalSize = 0;
+
+  for (const raw of body.files) {
+    const { path, content, encoding = 'utf8' } = (raw ?? {}) as Partial<ProjectFile>;
+
+    if (typeof path !== 'string' || !isSafePath(path)) {
+      throw new ProjectValidationError(`Invalid file path: ${String(path)}`);
+    }
+    if (LATEXMK_RC_FILE.test(path)) {
+      throw new ProjectValidationError(`latexmk configuration files are not allowed: ${path}`);
+    }
+    if (seen.has(path)) {
+      throw new ProjectValidationError(`Duplicate file path: ${path}`);
+    }
+    if (typeof content !== 'string') {
+      throw new ProjectValidationError(`Invalid content for file: ${path}`);
+    }
+    if (encoding !== 'utf8' && encoding !== 'base64') {
+      throw new ProjectValidationError(`Invalid encoding for file: ${path}`);
+    }
+    if (encoding === 'base64' && !BASE64_PATTERN.test(content)) {
+      throw new ProjectValidationError(`Invalid base64 content for file: ${path}`);
+    }
+
+    const file: ProjectFile = { path, content, encoding };
+    const size = fileSize(file);
+    if (encoding === 'utf8' && size > MAX_TEXT_FILE_SIZE) {
+      throw new ProjectValidationError(`File too large: ${path} (max 100KB for text files)`);
+    }
+    if (encoding === 'base64' && size > MAX_BINARY_FILE_SIZE) {
+      throw new ProjectValidationError(`File too large: ${path} (max 2MB for binary files)`);
+    }
+    totalSize += size;
+    if (totalSize > MAX_PROJECT_SIZE) {
+      throw new ProjectValidationError('Project too large (max 5MB)');
+    }
+
+    seen.add(path);
+    files.push(file);
+  }
+
+  const mainFile = body.mainFile ?? (seen.has(DEFAULT_MAIN_FILE) ? DEFAULT_MAIN_FILE : 'main.tex');
+  if (typeof mainFile !== 'string' || !seen.has(mainFile)) {
+    throw new ProjectValidationError(`Main file not found in files: ${String(mainFile)}`);
+  }
+  if (files.find((f) => f.path === mainFile)?.encoding === 'base64') {
+    throw new ProjectValidationError('Main file must be a text file');
+  }
+
+  return { files, mainFile };
+}
+
+export function toBlob(file: ProjectFile): Blob {
+  return file.encoding === 'base64'
+    ? new Blob([decodeBase64(file.content)], { type: 'application/octet-stream' })
+    : new Blob([file.content], { type: 'text/plain' });
+}
@@ -0,0 +1,76 @@
+// HTTP helpers shared by the latex-convert routes
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-tex-engine, x-cache, x-batch-succeeded, x-batch-failed, ratelimit-limit, ratelimit-remaining, ratelimit-reset, retry-after',
+};
+
+export class RequestTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Request body too large (max ${Math.floor(maxBytes / (1024 * 1024))}MB)`);
+  }
+}
+
+// Parses a JSON body without reading more than `maxBytes` of it, whatever
+// Content-Length claims
+export async function readJsonBody(req: Request, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers.get('content-length')) > maxBytes) throw new RequestTooLargeError(maxBytes);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (req.body) {
+    const reader = req.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new RequestTooLargeError(maxBytes);
+      }
+      chunks.push(value);
+    }
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+function allowedOrigins(): string[] {
+  return (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// ALLOWED_ORIGINS (comma-separated) limits which web origins browsers let
+// call the function; any origin may when it is unset. It only shapes the CORS
+// headers: callers are identified by their API key or session, not by Origin.
+export function withCors(req: Request, response: Response): Response {
+  const allowed = allowedOrigins();
+  if (allowed.length === 0) return response;
+
+  const origin = req.headers.get('origin');
+  const headers = new Headers(response.headers);
+  if (origin && allowed.includes(origin)) {
+    headers.set('Access-Control-Allow-Origin', origin);
+  } else {
+    headers.delete('Access-Control-Allow-Origin');
+  }
+  headers.append('Vary', 'Origin');
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
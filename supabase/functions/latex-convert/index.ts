@@ -1,15 +1,189 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encodeBase64, type ProjectFile, normalizeProject, ProjectValidationError } from "./files.ts";
+import { decodeZipField, MAX_ZIP_SIZE, projectFromZip } from "./zip.ts";
+import { createProject } from "./projects.ts";
+import { type RenderedProject, renderProject } from "./render.ts";
+import {
+  type BatchOutput,
+  compileBatch,
+  createBatchJob,
+  getBatchJob,
+  maxBatchBodySize,
+  type PreparedBatch,
+  prepareBatch,
+  runBatchJob,
+} from "./batch.ts";
+import { DEFAULT_ENGINE, type Engine, ENGINES, isEngine } from "./engines.ts";
+import { AuthError, authenticate, type Caller, requireScope } from "./auth.ts";
+import { type CompileBackend, getCompileBackend } from "./backends/index.ts";
+import { getCacheSettings, withCache } from "./cache.ts";
+import { withMetering } from "./metering.ts";
+import { enforceQuota, enforceRateLimits, RateLimitError } from "./rate-limit.ts";
+import { corsHeaders, jsonResponse, readJsonBody, RequestTooLargeError, withCors } from "./http.ts";
+import { cancelCompileJob, createCompileJob, getCompileJob, runCompileJob } from "./jobs.ts";
+import { CallbackUrlError, listJobDeliveries, validateCallbackUrl } from "./webhooks.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
-};
+// Provided by the Supabase edge runtime to keep work alive after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
 
 interface CompileRequest {
-  latex: string;
+  // Single-file shorthand, compiled as document.tex
+  latex?: string;
+  files?: ProjectFile[];
+  mainFile?: string;
+  engine?: Engine;
+  // Return a job id immediately and compile in the background
+  async?: boolean;
+  // Notified when the job finishes; implies async
+  callbackUrl?: string;
+  // Set to false to skip the compile cache
+  cache?: boolean;
+  // Include SyncTeX data for editor/PDF navigation (JSON responses and jobs)
+  synctex?: boolean;
+  // Include the .bbl file BibTeX or Biber wrote (JSON responses and jobs)
+  bbl?: boolean;
+  // Base64 ZIP archive used instead of latex/files; mainFile is detected
+  // when not given
+  zip?: string;
+  // Save the files as a project owned by the API key's owner instead of
+  // compiling them
+  createProject?: boolean;
+  name?: string;
+  // POST /render: a stored template's id or an inline template, filled in
+  // with `data` before compiling
+  templateId?: string;
+  template?: string;
+  data?: Record<string, unknown>;
+  // POST /batch: documents, or rows of data for the template, compiled into
+  // one ZIP or merged PDF
+  documents?: unknown[];
+  rows?: unknown[];
+  nameField?: string;
+  output?: BatchOutput;
 }
 
-serve(async (req) => {
+function isMultipart(req: Request): boolean {
+  return req.headers.get('content-type')?.startsWith('multipart/form-data') ?? false;
+}
+
+// JSON bodies, or multipart uploads with the archive in a `file` field and
+// the other options as text fields. JSON bodies are capped at `maxBytes`
+// when given.
+async function readCompileRequest(
+  req: Request,
+  maxBytes?: number,
+): Promise<{ body: CompileRequest; archive: Uint8Array | null }> {
+  if (!isMultipart(req)) {
+    const body = (maxBytes === undefined ? await req.json() : await readJsonBody(req, maxBytes)) as CompileRequest;
+    return { body, archive: body.zip === undefined ? null : decodeZipField(body.zip) };
+  }
+
+  const form = await req.formData();
+  const file = form.get('file');
+  if (!(file instanceof File)) {
+    throw new ProjectValidationError('Invalid request: multipart uploads need a file field with a ZIP archive');
+  }
+  if (file.size > MAX_ZIP_SIZE) {
+    throw new ProjectValidationError('ZIP archive too large (max 5MB)');
+  }
+
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === 'string' ? value : undefined;
+  };
+  const flag = (name: string) => (field(name) === undefined ? undefined : field(name) === 'true');
+  return {
+    body: {
+      mainFile: field('mainFile'),
+      engine: field('engine') as Engine | undefined,
+      async: flag('async'),
+      callbackUrl: field('callbackUrl'),
+      cache: flag('cache'),
+      synctex: flag('synctex'),
+      bbl: flag('bbl'),
+      createProject: flag('createProject'),
+      name: field('name') ?? file.name.replace(/\.zip$/i, ''),
+    },
+    archive: new Uint8Array(await file.arrayBuffer()),
+  };
+}
+
+const JOB_STATUS_PATH = /\/jobs\/([0-9a-f-]{36})(\/deliveries)?\/?$/i;
+const RENDER_PATH = /\/render\/?$/;
+const BATCH_PATH = /\/batch\/?$/;
+const BATCH_STATUS_PATH = /\/batches\/([0-9a-f-]{36})\/?$/i;
+const BACKEND_PATH = /\/backend\/?$/;
+
+const backend = withCache(getCompileBackend(), getCacheSettings());
+
+// Compiles a batch in the request, or as a background job when `async` is
+// set. Items report their own status; the request only fails when none of
+// them compiled.
+async function handleBatch(
+  batch: PreparedBatch,
+  body: CompileRequest,
+  engine: Engine,
+  caller: Caller,
+  compileBackend: CompileBackend,
+  { pathname, wantsBinary, headers }: { pathname: string; wantsBinary: boolean; headers: Record<string, string> },
+): Promise<Response> {
+  if (body.callbackUrl !== undefined) {
+    return jsonResponse({ error: 'callbackUrl is not supported for batches; poll the statusUrl instead' }, 400);
+  }
+  const compileOptions = { engine, cache: body.cache !== false, synctex: false, bbl: false };
+
+  if (body.async) {
+    const batchId = await createBatchJob(batch, engine, caller);
+    const job = runBatchJob(batchId, batch, compileOptions, compileBackend);
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(job);
+    }
+
+    console.log('Queued batch', { batchId, documents: batch.entries.length, engine });
+
+    return jsonResponse({
+      batchId,
+      status: 'queued',
+      statusUrl: `${pathname.replace(BATCH_PATH, '')}/batches/${batchId}`,
+    }, 202, headers);
+  }
+
+  console.log('Compiling batch...', { documents: batch.entries.length, output: batch.output, engine });
+
+  const { items, succeeded, failed, output } = await compileBatch(batch, compileOptions, compileBackend);
+  if (!output) {
+    return jsonResponse({ error: 'No document in the batch compiled', engine, succeeded, failed, items }, 400, headers);
+  }
+
+  const contentType = batch.output === 'merged' ? 'application/pdf' : 'application/zip';
+  if (wantsBinary) {
+    return new Response(output, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${batch.output === 'merged' ? 'batch.pdf' : 'batch.zip'}"`,
+        'X-TeX-Engine': engine,
+        'X-Batch-Succeeded': String(succeeded),
+        'X-Batch-Failed': String(failed),
+        ...headers,
+      },
+    });
+  }
+
+  return jsonResponse({
+    success: failed === 0,
+    output: batch.output,
+    outputUrl: `data:${contentType};base64,${encodeBase64(output)}`,
+    engine,
+    total: items.length,
+    succeeded,
+    failed,
+    items,
+  }, 200, headers);
+}
+
+async function handleRequest(req: Request): Promise<Response> {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -21,136 +195,257 @@ serve(async (req) => {
     const formatBinary = url.searchParams.get('format') === 'binary';
     const acceptHeader = req.headers.get('accept');
     const wantsBinary = formatBinary || acceptHeader?.includes('application/pdf');
-    // Check for API key (for external API calls) - if present, validate it
-    const apiKey = req.headers.get('x-api-key');
-    const expectedApiKey = Deno.env.get('LATEX_API_KEY');
-    
-    // If API key is provided, it must be valid
-    if (apiKey && apiKey !== expectedApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: Invalid API key' }),
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    // Resolve the API key (if any) and the scopes it grants
+    const caller = await authenticate(req);
+
+    // Job status: GET /latex-convert/jobs/:id
+    // Webhook delivery log: GET /latex-convert/jobs/:id/deliveries
+    // Cancel a queued or running job: DELETE /latex-convert/jobs/:id
+    const jobMatch = JOB_STATUS_PATH.exec(url.pathname);
+    if (jobMatch && req.method === 'DELETE' && !jobMatch[2]) {
+      requireScope(caller, 'compile');
+      const job = await cancelCompileJob(jobMatch[1], caller.ownerId);
+      if (!job) {
+        return jsonResponse({ error: 'Compile job not found' }, 404);
+      }
+      console.log('Cancelled compile job', { jobId: job.id, status: job.status });
+      return jsonResponse(job);
+    }
+    if (jobMatch) {
+      if (req.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      requireScope(caller, 'jobs:read');
+      const job = await getCompileJob(jobMatch[1], caller.ownerId);
+      if (!job) {
+        return jsonResponse({ error: 'Compile job not found' }, 404);
+      }
+      if (jobMatch[2]) {
+        return jsonResponse({ deliveries: await listJobDeliveries(job.id) });
+      }
+      return jsonResponse(job);
     }
-    
-    // Allow calls from frontend (no API key needed for now)
-    // For production, you may want to add JWT validation or require API key
 
-    // Parse request body
-    const { latex }: CompileRequest = await req.json();
+    // Batch status: GET /latex-convert/batches/:id
+    const batchMatch = BATCH_STATUS_PATH.exec(url.pathname);
+    if (batchMatch) {
+      if (req.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      requireScope(caller, 'jobs:read');
+      const batch = await getBatchJob(batchMatch[1], caller.ownerId);
+      if (!batch) {
+        return jsonResponse({ error: 'Batch not found' }, 404);
+      }
+      return jsonResponse(batch);
+    }
 
-    if (!latex || typeof latex !== 'string') {
-      return new Response(
-        JSON.stringify({ error: 'Invalid request: latex field is required' }),
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    // What the compile backend supports: GET /latex-convert/backend
+    if (BACKEND_PATH.test(url.pathname)) {
+      if (req.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed' }, 405);
+      }
+      return jsonResponse({ name: backend.name, synctex: backend.synctex });
     }
 
-    // Input validation - prevent excessively large documents
-    if (latex.length > 100000) {
-      return new Response(
-        JSON.stringify({ error: 'LaTeX document too large (max 100KB)' }),
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
     }
+    requireScope(caller, 'compile');
+    // Batches are charged per document below, once their size is known
+    const isBatch = BATCH_PATH.test(url.pathname);
+    let rateLimitHeaders: Record<string, string> = {};
+    if (!isBatch) {
+      rateLimitHeaders = await enforceRateLimits(req, caller);
+      await enforceQuota(caller);
+    }
+    const compileBackend = withMetering(backend, caller);
 
-    console.log('Compiling LaTeX document...', { length: latex.length });
+    // Parse request body. Batches are read up to a size limit, since they
+    // are not charged for until they have been read.
+    if (isBatch && isMultipart(req)) {
+      return jsonResponse({ error: 'Batch requests take a JSON body' }, 400);
+    }
+    const { body, archive } = await readCompileRequest(req, isBatch ? maxBatchBodySize() : undefined);
 
-    // Prefer TeXLive.net API via POST to avoid URL length limits
-    const texliveUrl = 'https://texlive.net/cgi-bin/latexcgi';
+    // Render: POST /latex-convert/render fills a template with JSON data,
+    // then compiles it like any other project
+    let rendered: RenderedProject | null = null;
+    if (RENDER_PATH.test(url.pathname)) {
+      if (archive) {
+        return jsonResponse({ error: 'Render requests take a JSON body' }, 400);
+      }
+      rendered = await renderProject(body, caller.ownerId);
+      if (!rendered) {
+        return jsonResponse({ error: 'Template not found' }, 404);
+      }
+    }
 
-    const formData = new FormData();
-    const latexBlob = new Blob([latex], { type: 'text/plain' });
-    formData.append('filecontents[]', latexBlob, 'document.tex');
-    formData.append('filename[]', 'document.tex');
-    formData.append('engine', 'pdflatex');
-    formData.append('return', 'pdf');
+    // Batch: POST /latex-convert/batch compiles many documents, or one
+    // template with many rows of data
+    let batch: PreparedBatch | null = null;
+    if (isBatch) {
+      if (archive) {
+        return jsonResponse({ error: 'Batch requests take a JSON body' }, 400);
+      }
+      batch = await prepareBatch(body, caller.ownerId);
+      if (!batch) {
+        return jsonResponse({ error: 'Template not found' }, 404);
+      }
+      rateLimitHeaders = await enforceRateLimits(req, caller, batch.entries.length);
+      await enforceQuota(caller, batch.entries.length);
+    }
+    const engine = body.engine ?? rendered?.engine ?? batch?.engine ?? DEFAULT_ENGINE;
 
-    // Call TeXLive API
-    const compileResponse = await fetch(texliveUrl, {
-      method: 'POST',
-      body: formData,
-      redirect: 'follow',
-      headers: {
-        'Accept': 'application/pdf',
-      },
-    });
+    if (!isEngine(engine)) {
+      return jsonResponse({ error: `Invalid engine. Supported engines: ${ENGINES.join(', ')}` }, 400);
+    }
 
-    if (!compileResponse.ok) {
-      const errorText = await compileResponse.text();
-      console.error('LaTeX compilation failed:', errorText);
-      
-      return new Response(
-        JSON.stringify({ 
-          error: 'LaTeX compilation failed. Please check your LaTeX syntax.',
-          details: errorText.substring(0, 500)
-        }),
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
+    if (batch) {
+      return await handleBatch(batch, body, engine, caller, compileBackend, {
+        pathname: url.pathname,
+        wantsBinary: Boolean(wantsBinary),
+        headers: rateLimitHeaders,
+      });
+    }
+
+    const project = rendered
+      ? rendered.project
+      : archive
+      ? await projectFromZip(archive, body.mainFile)
+      : normalizeProject(body);
+
+    // Projects belong to a user, so only API key callers can create them
+    if (body.createProject) {
+      requireScope(caller, 'projects:write');
+      if (!caller.ownerId) {
+        return jsonResponse({ error: 'createProject requires an x-api-key header' }, 400);
+      }
+      const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim() : 'Imported project';
+      const created = await createProject(caller.ownerId, name, project, engine);
+      console.log('Created project from upload', { projectId: created.projectId, files: created.files.length });
+      return jsonResponse(created, 201, rateLimitHeaders);
+    }
+    const compileOptions = {
+      engine,
+      cache: body.cache !== false,
+      // Dropped when the backend cannot produce SyncTeX data, so such requests
+      // share cache entries with ones that did not ask for it
+      synctex: body.synctex === true && backend.synctex,
+      bbl: body.bbl === true,
+    };
+
+    // Callbacks are signed with the API key's webhook secret, so one is required
+    let callbackUrl: string | null = null;
+    if (body.callbackUrl !== undefined) {
+      if (!caller.webhookSecret) {
+        return jsonResponse({ error: 'callbackUrl requires an API key with a webhook secret' }, 400);
+      }
+      callbackUrl = validateCallbackUrl(body.callbackUrl);
+    }
+
+    if (body.async || callbackUrl) {
+      const jobId = await createCompileJob(project, engine, caller, callbackUrl);
+      const webhook = callbackUrl ? { url: callbackUrl, secret: caller.webhookSecret! } : undefined;
+      const job = runCompileJob(jobId, project, compileOptions, compileBackend, webhook);
+      if (typeof EdgeRuntime !== 'undefined') {
+        EdgeRuntime.waitUntil(job);
+      }
+
+      console.log('Queued compile job', { jobId, engine, backend: backend.name });
+
+      return jsonResponse({
+        jobId,
+        status: 'queued',
+        statusUrl: `${url.pathname.replace(RENDER_PATH, '').replace(/\/$/, '')}/jobs/${jobId}`,
+      }, 202, rateLimitHeaders);
     }
 
-    // Get the PDF as a blob
-    const pdfBlob = await compileResponse.blob();
-    const pdfArrayBuffer = await pdfBlob.arrayBuffer();
+    console.log('Compiling LaTeX project...', {
+      files: project.files.length,
+      mainFile: project.mainFile,
+      engine,
+      backend: backend.name,
+    });
+
+    const { pdf, log, diagnostics, cacheHit, synctex, bbl } = await compileBackend.compile(project, compileOptions);
+    const responseHeaders = { ...rateLimitHeaders, 'X-Cache': cacheHit ? 'HIT' : 'MISS' };
 
-    console.log('LaTeX compilation successful');
+    if (!pdf) {
+      console.error('LaTeX compilation failed:', log);
+
+      const errors = diagnostics.filter((d) => d.severity === 'error');
+      return jsonResponse({
+        error: 'LaTeX compilation failed. Please check your LaTeX syntax.',
+        details: errors.length > 0
+          ? errors.map((d) => d.line ? `${d.file}:${d.line}: ${d.message}` : d.message).join('\n')
+          : log.slice(-500),
+        diagnostics,
+        log,
+        engine,
+      }, 400, responseHeaders);
+    }
+
+    console.log('LaTeX compilation successful', { cacheHit });
 
     // Return binary PDF directly if requested
     if (wantsBinary) {
-      return new Response(pdfArrayBuffer, {
+      return new Response(pdf, {
         status: 200,
         headers: {
           ...corsHeaders,
           'Content-Type': 'application/pdf',
-          'Content-Disposition': 'attachment; filename="document.pdf"'
+          'Content-Disposition': 'attachment; filename="document.pdf"',
+          'X-TeX-Engine': engine,
+          ...responseHeaders,
         }
       });
     }
 
     // Otherwise return JSON with base64-encoded PDF
     const pdfBase64 = btoa(
-      new Uint8Array(pdfArrayBuffer).reduce(
+      pdf.reduce(
         (data, byte) => data + String.fromCharCode(byte),
         ''
       )
     );
 
-    return new Response(
-      JSON.stringify({ 
-        success: true,
-        pdfUrl: `data:application/pdf;base64,${pdfBase64}`,
-        message: 'PDF compiled successfully'
-      }),
-      { 
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+    return jsonResponse({
+      success: true,
+      pdfUrl: `data:application/pdf;base64,${pdfBase64}`,
+      engine,
+      diagnostics,
+      ...(body.synctex === true ? { synctex: synctex ?? null } : {}),
+      ...(compileOptions.bbl ? { bbl: bbl ?? null } : {}),
+      cached: Boolean(cacheHit),
+      message: 'PDF compiled successfully'
+    }, 200, responseHeaders);
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    if (error instanceof RateLimitError) {
+      return jsonResponse({
+        error: error.message,
+        limit: error.limit,
+        retryAfter: error.retryAfterSeconds,
+      }, 429, error.headers);
+    }
+    if (error instanceof ProjectValidationError || error instanceof CallbackUrlError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    if (error instanceof RequestTooLargeError) {
+      return jsonResponse({ error: error.message }, 413);
+    }
+
     console.error('Error in latex-convert function:', error);
-    
-    return new Response(
-      JSON.stringify({ 
-        error: 'Internal server error',
-        details: error.message 
-      }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error.message
+    }, 500);
   }
-});
+}
+
+serve(async (req) => withCors(req, await handleRequest(req)));
@@ -0,0 +1,345 @@
+// Asynchronous compile jobs stored in the compile_jobs table. Jobs expire
+// after COMPILE_JOB_TTL_SECONDS (default one day); expired jobs and their
+// results are deleted after later jobs finish. Queued and running jobs can be
+// cancelled by their owner.
+
+import type { Caller } from "./auth.ts";
+import type { CompileBackend, CompileOptions } from "./backends/index.ts";
+import type { Engine } from "./engines.ts";
+import type { CompileProject } from "./files.ts";
+import type { Diagnostic } from "./log-parser.ts";
+import { getServiceClient } from "./supabase-client.ts";
+import { deliverJobWebhook } from "./webhooks.ts";
+
+export type CompileJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+interface CompileJobRow {
+  id: string;
+  status: CompileJobStatus;
+  progress: number;
+  engine: string;
+  main_file: string;
+  log_tail: string | null;
+  diagnostics: Diagnostic[] | null;
+  error: string | null;
+  pdf_path: string | null;
+  synctex_path: string | null;
+  log_path: string | null;
+  bbl_path: string | null;
+  callback_url: string | null;
+  key_id: string | null;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  expires_at: string;
+}
+
+export interface CompileJob {
+  id: string;
+  status: CompileJobStatus;
+  progress: number;
+  engine: string;
+  mainFile: string;
+  logTail: string | null;
+  diagnostics: Diagnostic[];
+  error: string | null;
+  pdfUrl: string | null;
+  // Signed URL of the SyncTeX data, when requested and produced
+  synctexUrl: string | null;
+  // Signed URL of the full compile log; logTail only holds its end
+  logUrl: string | null;
+  // Signed URL of the .bbl file, when requested and produced
+  bblUrl: string | null;
+  callbackUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+export interface JobWebhook {
+  url: string;
+  // HMAC key the payload is signed with
+  secret: string;
+}
+
+const RESULTS_BUCKET = 'compile-results';
+const LOG_TAIL_LENGTH = 4000;
+const PDF_URL_TTL_SECONDS = 60 * 60;
+const DEFAULT_JOB_TTL_SECONDS = 24 * 60 * 60;
+// Expired jobs deleted per sweep, so one sweep stays short
+const EXPIRED_JOBS_PER_SWEEP = 100;
+
+export function jobExpiry(): string {
+  const ttl = Number(Deno.env.get('COMPILE_JOB_TTL_SECONDS') ?? DEFAULT_JOB_TTL_SECONDS);
+  return new Date(Date.now() + (Number.isFinite(ttl) ? ttl : DEFAULT_JOB_TTL_SECONDS) * 1000).toISOString();
+}
+
+export function isExpired(row: { expires_at: string }): boolean {
+  return new Date(row.expires_at).getTime() <= Date.now();
+}
+
+function logTail(log: string): string {
+  return log.length > LOG_TAIL_LENGTH ? log.slice(-LOG_TAIL_LENGTH) : log;
+}
+
+// Cancelled jobs keep that status
+async function updateJob(id: string, changes: Partial<CompileJobRow>) {
+  const { error } = await getServiceClient()
+    .from('compile_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .neq('status', 'cancelled');
+  if (error) throw new Error(`Failed to update compile job ${id}: ${error.message}`);
+}
+
+export async function createCompileJob(
+  project: CompileProject,
+  engine: Engine,
+  caller: Caller,
+  callbackUrl: string | null = null,
+): Promise<string> {
+  const { data, error } = await getServiceClient()
+    .from('compile_jobs')
+    .insert({
+      status: 'queued',
+      progress: 0,
+      engine,
+      main_file: project.mainFile,
+      callback_url: callbackUrl,
+      key_id: caller.keyId,
+      owner_id: caller.ownerId,
+      expires_at: jobExpiry(),
+    })
+    .select('id')
+    .single();
+  if (error) throw new Error(`Failed to create compile job: ${error.message}`);
+  return data.id;
+}
+
+// Compiles the project, records the outcome on the job and then notifies the
+// webhook if one was given. Never throws: failures are stored on the job for
+// the status endpoint to report.
+export async function runCompileJob(
+  id: string,
+  project: CompileProject,
+  options: CompileOptions,
+  backend: CompileBackend,
+  webhook?: JobWebhook,
+) {
+  const finished = await compileJob(id, project, options, backend);
+
+  // Whoever cancelled the job already knows how it ended
+  if (webhook && finished) {
+    try {
+      const row = await loadJobRow(id);
+      if (row) await deliverJobWebhook(await toCompileJob(row), webhook.url, webhook.secret);
+    } catch (error) {
+      console.error('Webhook delivery error:', id, error);
+    }
+  }
+
+  await deleteExpiredJobs().catch((error) => console.error('Failed to delete expired compile jobs:', error));
+}
+
+export async function removeResults(paths: (string | null)[]) {
+  const stored = paths.filter((path): path is string => path !== null);
+  if (stored.length === 0) return;
+  const { error } = await getServiceClient().storage.from(RESULTS_BUCKET).remove(stored);
+  if (error) throw new Error(`Failed to delete compile results: ${error.message}`);
+}
+
+// Deletes the results of expired jobs, then the jobs themselves along with
+// their webhook deliveries
+async function deleteExpiredJobs() {
+  const supabase = getServiceClient();
+  const { data, error } = await supabase
+    .from('compile_jobs')
+    .select('id, pdf_path, synctex_path, log_path, bbl_path')
+    .lte('expires_at', new Date().toISOString())
+    .order('expires_at')
+    .limit(EXPIRED_JOBS_PER_SWEEP);
+  if (error) throw new Error(`Failed to list expired compile jobs: ${error.message}`);
+  if (data.length === 0) return;
+
+  await removeResults(data.flatMap((row) => [row.pdf_path, row.synctex_path, row.log_path, row.bbl_path]));
+  const { error: deleteError } = await supabase
+    .from('compile_jobs')
+    .delete()
+    .in('id', data.map((row) => row.id));
+  if (deleteError) throw new Error(`Failed to delete expired compile jobs: ${deleteError.message}`);
+}
+
+export async function storeResult(path: string, data: Uint8Array | string, contentType: string, label: string) {
+  const { error } = await getServiceClient()
+    .storage
+    .from(RESULTS_BUCKET)
+    .upload(path, data, { contentType, upsert: true });
+  if (error) throw new Error(`Failed to store ${label}: ${error.message}`);
+}
+
+// Starts the job unless it was cancelled while queued
+async function claimJob(id: string): Promise<boolean> {
+  const { data, error } = await getServiceClient()
+    .from('compile_jobs')
+    .update({ status: 'running', progress: 10, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'queued')
+    .select('id');
+  if (error) throw new Error(`Failed to start compile job ${id}: ${error.message}`);
+  return data.length > 0;
+}
+
+async function isCancelled(id: string): Promise<boolean> {
+  const row = await loadJobRow(id);
+  return row?.status === 'cancelled';
+}
+
+// Returns false when the job was cancelled, before the backend ran or while
+// it was running; the results of a cancelled run are discarded.
+async function compileJob(
+  id: string,
+  project: CompileProject,
+  options: CompileOptions,
+  backend: CompileBackend,
+): Promise<boolean> {
+  try {
+    if (!await claimJob(id)) return false;
+
+    const { pdf, log, diagnostics, synctex, bbl } = await backend.compile(project, options);
+    if (await isCancelled(id)) return false;
+
+    // Cache hits come without a log
+    let logPath: string | null = null;
+    if (log) {
+      logPath = `${id}.log`;
+      await storeResult(logPath, log, 'text/plain', 'compile log');
+    }
+
+    if (!pdf) {
+      await updateJob(id, {
+        status: 'failed',
+        progress: 100,
+        log_tail: logTail(log),
+        log_path: logPath,
+        diagnostics,
+        error: 'LaTeX compilation failed. Please check your LaTeX syntax.',
+        finished_at: new Date().toISOString(),
+      });
+      return true;
+    }
+
+    await updateJob(id, { progress: 80, log_tail: logTail(log), diagnostics });
+
+    const pdfPath = `${id}.pdf`;
+    await storeResult(pdfPath, pdf, 'application/pdf', 'PDF');
+
+    let synctexPath: string | null = null;
+    if (synctex) {
+      synctexPath = `${id}.synctex`;
+      await storeResult(synctexPath, synctex, 'text/plain', 'SyncTeX data');
+    }
+
+    let bblPath: string | null = null;
+    if (bbl) {
+      bblPath = `${id}.bbl`;
+      await storeResult(bblPath, bbl, 'text/plain', '.bbl file');
+    }
+
+    await updateJob(id, {
+      status: 'succeeded',
+      progress: 100,
+      pdf_path: pdfPath,
+      synctex_path: synctexPath,
+      log_path: logPath,
+      bbl_path: bblPath,
+      finished_at: new Date().toISOString(),
+    });
+    return true;
+  } catch (error) {
+    console.error('Compile job failed:', id, error);
+    await updateJob(id, {
+      status: 'failed',
+      progress: 100,
+      error: error instanceof Error ? error.message : String(error),
+      finished_at: new Date().toISOString(),
+    }).catch((updateError) => console.error('Failed to record job failure:', updateError));
+    return true;
+  }
+}
+
+// Signed links expire after an hour; fetching the job again gives fresh ones
+export async function signResultUrl(path: string | null): Promise<string | null> {
+  if (!path) return null;
+  const { data, error } = await getServiceClient()
+    .storage
+    .from(RESULTS_BUCKET)
+    .createSignedUrl(path, PDF_URL_TTL_SECONDS);
+  if (error) throw new Error(`Failed to sign result URL: ${error.message}`);
+  return data.signedUrl;
+}
+
+async function loadJobRow(id: string): Promise<CompileJobRow | null> {
+  const { data, error } = await getServiceClient()
+    .from('compile_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load compile job ${id}: ${error.message}`);
+  return data as CompileJobRow | null;
+}
+
+async function toCompileJob(row: CompileJobRow): Promise<CompileJob> {
+  const [pdfUrl, synctexUrl, logUrl, bblUrl] = await Promise.all(
+    [row.pdf_path, row.synctex_path, row.log_path, row.bbl_path].map(signResultUrl),
+  );
+
+  return {
+    id: row.id,
+    status: row.status,
+    progress: row.progress,
+    engine: row.engine,
+    mainFile: row.main_file,
+    logTail: row.log_tail,
+    diagnostics: row.diagnostics ?? [],
+    error: row.error,
+    pdfUrl,
+    synctexUrl,
+    logUrl,
+    bblUrl,
+    callbackUrl: row.callback_url,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+// Jobs are only visible to callers of the user who created them, through any
+// of their keys; jobs created without a key only to callers without one.
+// Expired jobs are treated as gone.
+export async function getCompileJob(id: string, ownerId: string | null): Promise<CompileJob | null> {
+  const row = await loadJobRow(id);
+  if (!row || row.owner_id !== ownerId || isExpired(row)) return null;
+  return toCompileJob(row);
+}
+
+// Marks a queued or running job of the caller as cancelled. Finished jobs are
+// returned unchanged; null when the caller cannot see the job.
+export async function cancelCompileJob(id: string, ownerId: string | null): Promise<CompileJob | null> {
+  const row = await loadJobRow(id);
+  if (!row || row.owner_id !== ownerId || isExpired(row)) return null;
+  if (row.status !== 'queued' && row.status !== 'running') return toCompileJob(row);
+
+  const now = new Date().toISOString();
+  const { data, error } = await getServiceClient()
+    .from('compile_jobs')
+    .update({ status: 'cancelled', progress: 100, finished_at: now, updated_at: now })
+    .eq('id', id)
+    .in('status', ['queued', 'running'])
+    .select('*');
+  if (error) throw new Error(`Failed to cancel compile job ${id}: ${error.message}`);
+
+  // The job finished in the meantime
+  if (data.length === 0) return getCompileJob(id, ownerId);
+  return toCompileJob(data[0] as CompileJobRow);
+}
@@ -0,0 +1,145 @@
+// Parser for TeX compile logs
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'badbox';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+// TeX hard-wraps log lines at this width
+const LOG_LINE_WIDTH = 79;
+
+const FILE_LINE_ERROR = /^(\.?\/?[^:\s]+\.\w+):(\d+): (.*)$/;
+const INPUT_LINE = /on input line (\d+)\.?/;
+const BAD_BOX = /^(Over|Under)full \\[hv]box .*?(?:at lines? (\d+)(?:--\d+)?|$)/;
+const PACKAGE_WARNING = /^(?:LaTeX|Package|Class) (?:(\S+) )?Warning: (.*)$/;
+const CONTINUATION = /^\(([^)\s]+)\)\s+(.*)$/;
+
+// Joins lines that TeX split because they hit the log width limit.
+function unwrapLines(log: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const line of log.split(/\r?\n/)) {
+    current += line;
+    if (line.length !== LOG_LINE_WIDTH) {
+      lines.push(current);
+      current = '';
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function normalizeFileName(path: string): string {
+  return path.replace(/^\.\//, '');
+}
+
+function looksLikeFile(token: string): boolean {
+  return /^(\.{0,2}\/|[A-Za-z]:)?[^\s()]*\.[A-Za-z]{1,4}$/.test(token);
+}
+
+// Tracks the file TeX is currently reading from the "(./file.tex ... )"
+// markers it writes whenever it opens and closes an input file.
+class FileStack {
+  private stack: (string | null)[] = [];
+
+  update(line: string) {
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '(') {
+        const match = /^[^\s()]+/.exec(line.slice(i + 1));
+        const token = match?.[0] ?? '';
+        this.stack.push(looksLikeFile(token) ? normalizeFileName(token) : null);
+        i += token.length;
+      } else if (char === ')') {
+        this.stack.pop();
+      }
+    }
+  }
+
+  get current(): string | undefined {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const file = this.stack[i];
+      if (file) return file;
+    }
+    return undefined;
+  }
+}
+
+export function parseTexLog(log: string): Diagnostic[] {
+  const lines = unwrapLines(log);
+  const files = new FileStack();
+  const diagnostics: Diagnostic[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fileLineError = FILE_LINE_ERROR.exec(line);
+    if (fileLineError) {
+      diagnostics.push({
+        severity: 'error',
+        message: fileLineError[3],
+        file: normalizeFileName(fileLineError[1]),
+        line: Number(fileLineError[2]),
+      });
+      continue;
+    }
+
+    if (line.startsWith('! ')) {
+      const diagnostic: Diagnostic = {
+        severity: 'error',
+        message: line.slice(2),
+        file: files.current,
+      };
+      // The offending source line follows as "l.<n> <context>"
+      for (let j = i + 1; j < Math.min(lines.length, i + 20); j++) {
+        const lineRef = /^l\.(\d+)/.exec(lines[j]);
+        if (lineRef) {
+          diagnostic.line = Number(lineRef[1]);
+          i = j;
+          break;
+        }
+      }
+      diagnostics.push(diagnostic);
+      continue;
+    }
+
+    const badBox = BAD_BOX.exec(line);
+    if (badBox) {
+      diagnostics.push({
+        severity: 'badbox',
+        message: line.trim(),
+        file: files.current,
+        line: badBox[2] ? Number(badBox[2]) : undefined,
+      });
+      continue;
+    }
+
+    const warning = PACKAGE_WARNING.exec(line);
+    if (warning) {
+      let message = warning[2];
+      // Multi-line package warnings continue with "(<package>)   text"
+      while (i + 1 < lines.length) {
+        const continuation = CONTINUATION.exec(lines[i + 1]);
+        if (!continuation) break;
+        message += ` ${continuation[2]}`;
+        i++;
+      }
+      const inputLine = INPUT_LINE.exec(message);
+      diagnostics.push({
+        severity: 'warning',
+        message: message.trim(),
+        file: files.current,
+        line: inputLine ? Number(inputLine[1]) : undefined,
+      });
+      continue;
+    }
+
+    files.update(line);
+  }
+
+  return diagnostics;
+}
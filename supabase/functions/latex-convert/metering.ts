@@ -0,0 +1,83 @@
+// Usage metering: per-compile events and monthly per-user totals
+
+import type { Caller } from "./auth.ts";
+import type { CompileBackend, CompileResult } from "./backends/index.ts";
+import { type CompileProject, fileSize } from "./files.ts";
+import { currentPeriod } from "./rate-limit.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+export type CompileOutcome = 'succeeded' | 'failed' | 'error';
+
+// Reads the page count from the page tree root's /Count, falling back to
+// counting page objects. Returns null when neither can be found, e.g. when
+// the page tree sits in a compressed object stream.
+export function countPdfPages(pdf: Uint8Array): number | null {
+  const text = new TextDecoder('latin1').decode(pdf);
+  const counts = [...text.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g)]
+    .map((match) => Number(match[1] ?? match[2]));
+  if (counts.length > 0) return Math.max(...counts);
+
+  const pages = text.match(/\/Type\s*\/Page\b(?!s)/g)?.length ?? 0;
+  return pages > 0 ? pages : null;
+}
+
+function projectSize(project: CompileProject): number {
+  return project.files.reduce((total, file) => total + fileSize(file), 0);
+}
+
+async function recordEvent(
+  caller: Caller,
+  backendName: string,
+  project: CompileProject,
+  engine: string,
+  durationMs: number,
+  result: CompileResult | null,
+) {
+  const outcome: CompileOutcome = !result ? 'error' : result.pdf ? 'succeeded' : 'failed';
+  const { error } = await getServiceClient().from('compile_events').insert({
+    key_id: caller.keyId,
+    owner_id: caller.ownerId,
+    backend: backendName,
+    engine,
+    outcome,
+    cache_hit: Boolean(result?.cacheHit),
+    duration_ms: Math.round(durationMs),
+    input_bytes: projectSize(project),
+    output_bytes: result?.pdf?.length ?? null,
+    page_count: result?.pdf ? countPdfPages(result.pdf) : null,
+  });
+  if (error) console.error('Failed to record compile event:', error.message);
+}
+
+async function recordUsage(ownerId: string, durationMs: number) {
+  const { error } = await getServiceClient().rpc('record_compile_usage', {
+    p_owner_id: ownerId,
+    p_period_start: currentPeriod().start,
+    p_seconds: durationMs / 1000,
+  });
+  if (error) console.error('Failed to record compile usage:', error.message);
+}
+
+// Wraps a backend so every compile is logged to compile_events and, for
+// stored API keys, counted against the key owner's monthly usage.
+export function withMetering(backend: CompileBackend, caller: Caller): CompileBackend {
+  return {
+    name: backend.name,
+    synctex: backend.synctex,
+
+    async compile(project, options) {
+      const startedAt = performance.now();
+      let result: CompileResult | null = null;
+      try {
+        result = await backend.compile(project, options);
+        return result;
+      } finally {
+        const durationMs = performance.now() - startedAt;
+        await Promise.all([
+          recordEvent(caller, backend.name, project, options.engine, durationMs, result),
+          caller.keyId && caller.ownerId ? recordUsage(caller.ownerId, durationMs) : null,
+        ]);
+      }
+    },
+  };
+}
@@ -0,0 +1,83 @@
+// Saved projects created through the API, owned by the caller's API key owner
+
+import type { Engine } from "./engines.ts";
+import { type CompileProject, decodeBase64 } from "./files.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+// Same bucket and object layout (<project id>/<uuid>) as editor uploads
+const ASSETS_BUCKET = 'project-assets';
+
+// Binary files the editor can store, by extension; others are skipped
+const ASSET_TYPES = new Map([
+  ['png', 'image/png'],
+  ['jpg', 'image/jpeg'],
+  ['jpeg', 'image/jpeg'],
+  ['pdf', 'application/pdf'],
+  ['eps', 'application/postscript'],
+]);
+
+export interface CreatedProject {
+  projectId: string;
+  mainFile: string;
+  files: string[];
+  // Binary files of a type projects cannot hold
+  skipped: string[];
+}
+
+function assetContentType(path: string): string | undefined {
+  const match = /\.([^./]+)$/.exec(path);
+  return match ? ASSET_TYPES.get(match[1].toLowerCase()) : undefined;
+}
+
+// Text files are stored in project_files, binary ones in storage. Nothing is
+// left behind when any part fails.
+export async function createProject(
+  ownerId: string,
+  name: string,
+  project: CompileProject,
+  engine: Engine,
+): Promise<CreatedProject> {
+  const supabase = getServiceClient();
+  const { data, error } = await supabase
+    .from('projects')
+    .insert({ owner_id: ownerId, name, main_file: project.mainFile, engine })
+    .select('id')
+    .single();
+  if (error) throw new Error(`Failed to create project: ${error.message}`);
+
+  const projectId: string = data.id;
+  const storagePaths: string[] = [];
+  try {
+    const rows = [];
+    const skipped: string[] = [];
+    for (const file of project.files) {
+      if (file.encoding !== 'base64') {
+        rows.push({ project_id: projectId, path: file.path, content: file.content });
+        continue;
+      }
+      const contentType = assetContentType(file.path);
+      if (!contentType) {
+        skipped.push(file.path);
+        continue;
+      }
+
+      const bytes = decodeBase64(file.content);
+      const storagePath = `${projectId}/${crypto.randomUUID()}`;
+      const { error: uploadError } = await supabase.storage
+        .from(ASSETS_BUCKET)
+        .upload(storagePath, bytes, { contentType });
+      if (uploadError) throw new Error(`Failed to store ${file.path}: ${uploadError.message}`);
+      storagePaths.push(storagePath);
+      rows.push({ project_id: projectId, path: file.path, content: '', storage_path: storagePath, size_bytes: bytes.length });
+    }
+
+    const { error: filesError } = await supabase.from('project_files').insert(rows);
+    if (filesError) throw new Error(`Failed to save project files: ${filesError.message}`);
+
+    return { projectId, mainFile: project.mainFile, files: rows.map((row) => row.path), skipped };
+  } catch (error) {
+    if (storagePaths.length > 0) await supabase.storage.from(ASSETS_BUCKET).remove(storagePaths);
+    await supabase.from('projects').delete().eq('id', projectId);
+    throw error;
+  }
+}
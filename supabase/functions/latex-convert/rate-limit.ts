@@ -0,0 +1,179 @@
+// Token-bucket rate limits and monthly quotas for compile requests
+
+import type { Caller } from "./auth.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+export type LimitName = 'api_key_rate' | 'ip_rate' | 'monthly_compiles' | 'monthly_compile_seconds';
+
+interface BucketSettings {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface BucketState {
+  allowed: boolean;
+  remaining: number;
+  resetSeconds: number;
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    readonly limit: LimitName,
+    readonly retryAfterSeconds: number,
+    readonly headers: Record<string, string>,
+  ) {
+    super(message);
+  }
+}
+
+function bucketSettings(prefix: string, defaultCapacity: number, defaultPerMinute: number): BucketSettings {
+  const capacity = Number(Deno.env.get(`${prefix}_CAPACITY`) ?? defaultCapacity);
+  const perMinute = Number(Deno.env.get(`${prefix}_REFILL_PER_MINUTE`) ?? defaultPerMinute);
+  return { capacity, refillPerSecond: perMinute / 60 };
+}
+
+function trustedProxyHops(): number {
+  const hops = Math.floor(Number(Deno.env.get('TRUSTED_PROXY_HOPS') ?? 1));
+  return Number.isFinite(hops) && hops >= 1 ? hops : 1;
+}
+
+// The client address set by the platform's edge is used when present.
+// Otherwise X-Forwarded-For is read from the right: each of the
+// TRUSTED_PROXY_HOPS proxies in front of the function appends the address it
+// saw, and anything further left was sent by the client and may be forged.
+function clientIp(req: Request): string {
+  const platformIp = (req.headers.get('cf-connecting-ip') ?? req.headers.get('x-real-ip'))?.trim();
+  if (platformIp) return platformIp;
+
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - trustedProxyHops())] ?? 'unknown';
+}
+
+async function consume(bucket: string, { capacity, refillPerSecond }: BucketSettings, cost: number): Promise<BucketState> {
+  const { data, error } = await getServiceClient().rpc('consume_rate_limit', {
+    p_bucket: bucket,
+    p_capacity: capacity,
+    p_refill_per_second: refillPerSecond,
+    p_cost: cost,
+  });
+  if (error) throw new Error(`Failed to check rate limit: ${error.message}`);
+  const [row] = data;
+  return { allowed: row.allowed, remaining: row.remaining, resetSeconds: row.reset_seconds };
+}
+
+function rateLimitHeaders(settings: BucketSettings, state: BucketState): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(settings.capacity),
+    'RateLimit-Remaining': String(state.remaining),
+    'RateLimit-Reset': String(Math.ceil(state.resetSeconds)),
+  };
+}
+
+// Takes `cost` tokens (one per document) from the caller's per-key and
+// per-IP buckets. Returns the RateLimit-* headers of the tighter bucket, or
+// throws RateLimitError when either bucket cannot cover the cost. Costs above
+// a bucket's capacity need a full bucket and leave it in debt.
+export async function enforceRateLimits(req: Request, caller: Caller, cost = 1): Promise<Record<string, string>> {
+  const checks: { limit: LimitName; bucket: string; settings: BucketSettings }[] = [
+    { limit: 'ip_rate', bucket: `ip:${clientIp(req)}`, settings: bucketSettings('RATE_LIMIT_IP', 20, 20) },
+  ];
+  if (caller.keyId) {
+    checks.unshift({
+      limit: 'api_key_rate',
+      bucket: `key:${caller.keyId}`,
+      settings: bucketSettings('RATE_LIMIT_KEY', 60, 60),
+    });
+  }
+
+  let headers: Record<string, string> = {};
+  let tightest = Infinity;
+  for (const { limit, bucket, settings } of checks) {
+    const state = await consume(bucket, settings, cost);
+    if (!state.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(state.resetSeconds));
+      throw new RateLimitError(
+        limit === 'api_key_rate' ? 'Rate limit exceeded for this API key' : 'Rate limit exceeded for this IP address',
+        limit,
+        retryAfter,
+        { ...rateLimitHeaders(settings, state), 'Retry-After': String(retryAfter) },
+      );
+    }
+    if (state.remaining < tightest) {
+      tightest = state.remaining;
+      headers = rateLimitHeaders(settings, state);
+    }
+  }
+  return headers;
+}
+
+export function currentPeriod(now = new Date()): { start: string; secondsLeft: number } {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return {
+    start: start.toISOString().slice(0, 10),
+    secondsLeft: Math.ceil((next.getTime() - now.getTime()) / 1000),
+  };
+}
+
+function envLimit(name: string): number | null {
+  const value = Deno.env.get(name);
+  return value ? Number(value) : null;
+}
+
+// Rejects keys whose owner has used up their monthly compile count or
+// compile time, counted across all of the owner's keys, or whose remaining
+// compiles cannot cover `compiles` more (the documents of a batch). Limits in
+// compile_quotas override DEFAULT_MONTHLY_COMPILES and
+// DEFAULT_MONTHLY_COMPILE_SECONDS; callers without a stored key are exempt.
+export async function enforceQuota(caller: Caller, compiles = 1) {
+  if (!caller.keyId || !caller.ownerId) return;
+
+  const supabase = getServiceClient();
+  const { data: quota, error: quotaError } = await supabase
+    .from('compile_quotas')
+    .select('monthly_compile_limit, monthly_compile_seconds_limit')
+    .eq('owner_id', caller.ownerId)
+    .maybeSingle();
+  if (quotaError) throw new Error(`Failed to load compile quota: ${quotaError.message}`);
+
+  const compileLimit = quota?.monthly_compile_limit ?? envLimit('DEFAULT_MONTHLY_COMPILES');
+  const secondsLimit = quota?.monthly_compile_seconds_limit ?? envLimit('DEFAULT_MONTHLY_COMPILE_SECONDS');
+  if (compileLimit === null && secondsLimit === null) return;
+
+  const period = currentPeriod();
+  const { data, error } = await supabase
+    .from('compile_usage')
+    .select('compile_count, compile_seconds')
+    .eq('owner_id', caller.ownerId)
+    .eq('period_start', period.start)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load compile usage: ${error.message}`);
+
+  const used = { compiles: data?.compile_count ?? 0, seconds: data?.compile_seconds ?? 0 };
+  const retryAfter = String(period.secondsLeft);
+
+  if (compileLimit !== null && used.compiles + compiles > compileLimit) {
+    const remaining = Math.max(0, compileLimit - used.compiles);
+    const message = remaining > 0
+      ? `Monthly compile quota exceeded: ${compiles} compiles requested, ${remaining} left`
+      : 'Monthly compile quota exceeded';
+    throw new RateLimitError(message, 'monthly_compiles', period.secondsLeft, {
+      'RateLimit-Limit': String(compileLimit),
+      'RateLimit-Remaining': String(remaining),
+      'RateLimit-Reset': retryAfter,
+      'Retry-After': retryAfter,
+    });
+  }
+  if (secondsLimit !== null && used.seconds >= secondsLimit) {
+    throw new RateLimitError('Monthly compile time quota exceeded', 'monthly_compile_seconds', period.secondsLeft, {
+      'RateLimit-Limit': String(secondsLimit),
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': retryAfter,
+      'Retry-After': retryAfter,
+    });
+  }
+}
@@ -0,0 +1,107 @@
+// Template rendering for POST /render: fills a stored or inline template with
+// JSON data before compiling it. The template language is described in
+// _shared/template.ts, which the editor's template gallery uses too.
+
+import { isRecord, renderTemplate, TemplateError } from "../_shared/template.ts";
+import { AuthError } from "./auth.ts";
+import { type Engine, isEngine } from "./engines.ts";
+import {
+  type CompileProject,
+  DEFAULT_MAIN_FILE,
+  MAX_TEXT_FILE_SIZE,
+  normalizeProject,
+  ProjectValidationError,
+} from "./files.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+export interface RenderRequest {
+  // Id of a template in the templates table, or the source of an inline one
+  templateId?: unknown;
+  template?: unknown;
+  data?: unknown;
+  // Extra files such as images, compiled alongside without rendering
+  files?: unknown;
+}
+
+// A template's files before rendering
+export interface TemplateSource {
+  files: Record<string, string>;
+  mainFile: string;
+  engine?: Engine;
+}
+
+export interface RenderedProject {
+  project: CompileProject;
+  // The stored template's engine, used unless the request names one
+  engine?: Engine;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Shared templates, or the caller's own private ones. Like the templates
+// table's policies, only signed-in users and API keys see any.
+async function loadStoredTemplate(id: string, ownerId: string | null): Promise<TemplateSource | null> {
+  if (!ownerId) throw new AuthError('Unauthorized: templateId requires an API key or sign-in', 401);
+  if (!UUID.test(id)) return null;
+
+  const supabase = getServiceClient();
+  const { data, error } = await supabase
+    .from('templates')
+    .select('files, main_file, engine, owner_id, shared')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load template: ${error.message}`);
+  if (!data || (!data.shared && data.owner_id !== ownerId)) return null;
+  return { files: data.files, mainFile: data.main_file, engine: isEngine(data.engine) ? data.engine : undefined };
+}
+
+// The request's inline template, or its stored one. Returns null when the
+// stored template does not exist or is not visible to the caller.
+export async function resolveTemplate(
+  body: Pick<RenderRequest, 'templateId' | 'template'>,
+  ownerId: string | null,
+): Promise<TemplateSource | null> {
+  if ((body.templateId === undefined) === (body.template === undefined)) {
+    throw new ProjectValidationError('Invalid request: either templateId or template is required');
+  }
+  if (body.template !== undefined) {
+    if (typeof body.template !== 'string' || !body.template) {
+      throw new ProjectValidationError('Invalid request: template must be a non-empty string');
+    }
+    if (body.template.length > MAX_TEXT_FILE_SIZE) {
+      throw new ProjectValidationError('Template too large (max 100KB)');
+    }
+    return { files: { [DEFAULT_MAIN_FILE]: body.template }, mainFile: DEFAULT_MAIN_FILE };
+  }
+  if (typeof body.templateId !== 'string') {
+    throw new ProjectValidationError('Invalid request: templateId must be a string');
+  }
+  return loadStoredTemplate(body.templateId, ownerId);
+}
+
+// Renders every text file of the template with `data`. Extra files are added
+// unrendered; paths, sizes and duplicates are checked like any other compile.
+export function renderTemplateProject(template: TemplateSource, data: unknown, extraFiles: unknown[]): CompileProject {
+  if (!isRecord(data)) {
+    throw new ProjectValidationError('Invalid data: must be an object');
+  }
+  const rendered = Object.entries(template.files).map(([path, source]) => {
+    try {
+      return { path, content: renderTemplate(path, source, data), encoding: 'utf8' as const };
+    } catch (error) {
+      if (error instanceof TemplateError) throw new ProjectValidationError(error.message);
+      throw error;
+    }
+  });
+  return normalizeProject({ files: [...rendered, ...extraFiles], mainFile: template.mainFile });
+}
+
+export async function renderProject(body: RenderRequest, ownerId: string | null): Promise<RenderedProject | null> {
+  const extraFiles = body.files ?? [];
+  if (!Array.isArray(extraFiles)) {
+    throw new ProjectValidationError('Invalid request: files must be an array');
+  }
+  const template = await resolveTemplate(body, ownerId);
+  if (!template) return null;
+  return { project: renderTemplateProject(template, body.data ?? {}, extraFiles), engine: template.engine };
+}
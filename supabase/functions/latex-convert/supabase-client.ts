@@ -0,0 +1,18 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+let client: SupabaseClient | null = null;
+
+// Service-role client for tables that are not exposed to browsers
+export function getServiceClient(): SupabaseClient {
+  if (!client) {
+    const url = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!url || !serviceRoleKey) {
+      throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+    }
+    client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+  return client;
+}
@@ -0,0 +1,226 @@
+// Signed webhook callbacks sent when a compile job finishes
+
+import type { CompileJob } from "./jobs.ts";
+import { toHex } from "./hash.ts";
+import { getServiceClient } from "./supabase-client.ts";
+
+const MAX_ATTEMPTS = 5;
+const INITIAL_BACKOFF_MS = 1000;
+const DELIVERY_TIMEOUT_MS = 10000;
+const RESPONSE_EXCERPT_LENGTH = 500;
+
+export class CallbackUrlError extends Error {}
+
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+// Expands an IPv6 address, with or without brackets, to its eight 16-bit
+// groups. The last 32 bits may be written as an IPv4 address.
+function parseIpv6(address: string): number[] | null {
+  let text = address.replace(/^\[(.*)\]$/, '$1').replace(/%.*$/, '');
+  const embedded = /(?:^|:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (embedded) {
+    const octets = parseIpv4(embedded[1]);
+    if (!octets) return null;
+    const high = ((octets[0] << 8) | octets[1]).toString(16);
+    const low = ((octets[2] << 8) | octets[3]).toString(16);
+    text = `${text.slice(0, -embedded[1].length)}${high}:${low}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const [head, tail = []] = halves.map((half) => (half ? half.split(':') : []));
+  if (![...head, ...tail].every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  return [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail].map((group) => parseInt(group, 16));
+}
+
+// Unspecified, loopback, private, carrier-grade NAT (100.64.0.0/10),
+// link-local, benchmarking, multicast and reserved IPv4 ranges
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// IPv4-compatible (including :: and ::1) and IPv4-mapped addresses are
+// judged by their IPv4 part, then unique local (fc00::/7), link-local
+// (fe80::/10) and multicast (ff00::/8) ranges are refused.
+function isPrivateIpv6(groups: number[]): boolean {
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return isPrivateIpv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  const [first] = groups;
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00;
+}
+
+// Only IP literals are judged; IPv6 hosts from URLs must be bracketed, so
+// names such as fd.io are not mistaken for addresses.
+function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPrivateIpv4(ipv4);
+  const ipv6 = address.includes(':') ? parseIpv6(address) : null;
+  return ipv6 ? isPrivateIpv6(ipv6) : false;
+}
+
+// Callbacks must go to public HTTPS endpoints so the function cannot be used
+// to reach internal services. Names are resolved again before every delivery
+// (see assertPublicHost), since a public name can point at a private address.
+export function validateCallbackUrl(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new CallbackUrlError('callbackUrl must be a string');
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new CallbackUrlError('callbackUrl must be an absolute URL');
+  }
+  if (url.protocol !== 'https:') {
+    throw new CallbackUrlError('callbackUrl must use https');
+  }
+  const host = url.hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host) || url.username || url.password) {
+    throw new CallbackUrlError('callbackUrl must point to a public host');
+  }
+  return url.toString();
+}
+
+// Throws CallbackUrlError when the callback host resolves to a private
+// address. Lookup failures throw a plain Error, so the delivery is retried.
+async function assertPublicHost(callbackUrl: string) {
+  const { hostname } = new URL(callbackUrl);
+  let addresses = [hostname];
+  if (!parseIpv4(hostname) && !hostname.startsWith('[')) {
+    const results = await Promise.allSettled([Deno.resolveDns(hostname, 'A'), Deno.resolveDns(hostname, 'AAAA')]);
+    addresses = results.flatMap((result) => (result.status === 'fulfilled' ? result.value : []));
+    if (addresses.length === 0) throw new Error(`Could not resolve ${hostname}`);
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) throw new CallbackUrlError(`callbackUrl resolves to a private address: ${blocked}`);
+}
+
+// Signature header format: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+export async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+async function recordDelivery(delivery: {
+  job_id: string;
+  delivery_id: string;
+  url: string;
+  attempt: number;
+  success: boolean;
+  status_code: number | null;
+  error: string | null;
+  response_excerpt: string | null;
+}) {
+  const { error } = await getServiceClient().from('webhook_deliveries').insert(delivery);
+  if (error) console.error('Failed to record webhook delivery:', error.message);
+}
+
+// Posts the job result to the callback URL, retrying with exponential backoff
+// on network errors and non-2xx responses. Hosts that resolve to a private
+// address are not retried. Every attempt is recorded in webhook_deliveries.
+// Returns whether delivery eventually succeeded.
+export async function deliverJobWebhook(job: CompileJob, callbackUrl: string, secret: string): Promise<boolean> {
+  const deliveryId = crypto.randomUUID();
+  const body = JSON.stringify({
+    event: 'compile.completed',
+    jobId: job.id,
+    status: job.status,
+    engine: job.engine,
+    mainFile: job.mainFile,
+    diagnostics: job.diagnostics,
+    error: job.error,
+    pdfUrl: job.pdfUrl,
+    finishedAt: job.finishedAt,
+  });
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number | null = null;
+    let responseExcerpt: string | null = null;
+    let error: string | null = null;
+    let retry = true;
+
+    try {
+      await assertPublicHost(callbackUrl);
+      const response = await fetch(callbackUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-LaTeX-Event': 'compile.completed',
+          'X-LaTeX-Delivery': deliveryId,
+          'X-LaTeX-Signature': await signPayload(secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      responseExcerpt = (await response.text()).slice(0, RESPONSE_EXCERPT_LENGTH);
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+      retry = !(fetchError instanceof CallbackUrlError);
+    }
+
+    await recordDelivery({
+      job_id: job.id,
+      delivery_id: deliveryId,
+      url: callbackUrl,
+      attempt,
+      success: error === null,
+      status_code: statusCode,
+      error,
+      response_excerpt: responseExcerpt,
+    });
+
+    if (error === null) return true;
+
+    console.warn('Webhook delivery failed', { jobId: job.id, attempt, error });
+    if (!retry) break;
+    if (attempt < MAX_ATTEMPTS) {
+      await new Promise((resolve) => setTimeout(resolve, INITIAL_BACKOFF_MS * 2 ** (attempt - 1)));
+    }
+  }
+
+  return false;
+}
+
+export async function listJobDeliveries(jobId: string) {
+  const { data, error } = await getServiceClient()
+    .from('webhook_deliveries')
+    .select('delivery_id, url, attempt, success, status_code, error, response_excerpt, created_at')
+    .eq('job_id', jobId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load webhook deliveries: ${error.message}`);
+
+  return data.map((row) => ({
+    deliveryId: row.delivery_id,
+    url: row.url,
+    attempt: row.attempt,
+    success: row.success,
+    statusCode: row.status_code,
+    error: row.error,
+    responseExcerpt: row.response_excerpt,
+    createdAt: row.created_at,
+  }));
+}
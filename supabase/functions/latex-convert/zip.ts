@@ -0,0 +1,75 @@
+// ZIP archive uploads: unpacks an Overleaf or arXiv style archive into a
+// compile project, with the reader and import rules the web app uses too.
+
+import { archiveFiles, decodeTextFile, findMainFile, MAX_ARCHIVE_ENTRIES } from "../_shared/project-archive.ts";
+import { readZip, ZipError } from "../_shared/zip.ts";
+import {
+  type CompileProject,
+  decodeBase64,
+  encodeBase64,
+  isSafePath,
+  MAX_BINARY_FILE_SIZE,
+  MAX_PROJECT_SIZE,
+  MAX_TEXT_FILE_SIZE,
+  normalizeProject,
+  type ProjectFile,
+  ProjectValidationError,
+} from "./files.ts";
+
+// Compressed archives cannot usefully be larger than the unpacked project
+export const MAX_ZIP_SIZE = MAX_PROJECT_SIZE;
+
+// The `zip` field of JSON requests holds the archive as base64
+export function decodeZipField(value: unknown): Uint8Array {
+  if (typeof value !== 'string' || !value) {
+    throw new ProjectValidationError('Invalid request: zip must be a base64 string');
+  }
+  if (value.length > Math.ceil(MAX_ZIP_SIZE / 3) * 4) {
+    throw new ProjectValidationError('ZIP archive too large (max 5MB)');
+  }
+  try {
+    return decodeBase64(value);
+  } catch {
+    throw new ProjectValidationError('Invalid request: zip must be a base64 string');
+  }
+}
+
+// Text files are sent as text and everything else as base64. Paths that
+// could escape the compile directory reject the whole archive.
+export async function projectFromZip(bytes: Uint8Array, mainFile?: unknown): Promise<CompileProject> {
+  if (bytes.length > MAX_ZIP_SIZE) {
+    throw new ProjectValidationError('ZIP archive too large (max 5MB)');
+  }
+  let entries;
+  try {
+    entries = await readZip(bytes, {
+      maxEntries: MAX_ARCHIVE_ENTRIES,
+      maxEntrySize: MAX_BINARY_FILE_SIZE,
+      maxTotalSize: MAX_PROJECT_SIZE,
+    });
+  } catch (error) {
+    if (error instanceof ZipError) throw new ProjectValidationError(error.message);
+    throw error;
+  }
+
+  const texts: Record<string, string> = {};
+  const files = archiveFiles(entries).map(({ path, rawPath, data }): ProjectFile => {
+    if (!isSafePath(path)) {
+      throw new ProjectValidationError(`Invalid file path in ZIP archive: ${rawPath}`);
+    }
+    // Not UTF-8, e.g. a Latin-1 source: compiled from its bytes
+    const content = decodeTextFile(path, data, MAX_TEXT_FILE_SIZE);
+    if (content === null) return { path, content: encodeBase64(data), encoding: 'base64' };
+    texts[path] = content;
+    return { path, content, encoding: 'utf8' };
+  });
+  if (files.length === 0) throw new ProjectValidationError('The ZIP archive contains no files');
+
+  if (mainFile === undefined) {
+    mainFile = findMainFile(texts);
+    if (!mainFile) {
+      throw new ProjectValidationError('No main file found: no .tex file in the archive contains \\documentclass');
+    }
+  }
+  return normalizeProject({ files, mainFile });
+}
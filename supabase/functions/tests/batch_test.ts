@@ -0,0 +1,95 @@
+// A batch is charged one compile per entry, so these check how many entries
+// a request becomes
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { maxBatchBodySize, prepareBatch } from "../latex-convert/batch.ts";
+import { ProjectValidationError } from "../latex-convert/files.ts";
+
+const DOCUMENT = '\\documentclass{article}\\begin{document}x\\end{document}';
+
+async function withEnv(name: string, value: string, run: () => unknown) {
+  Deno.env.set(name, value);
+  try {
+    await run();
+  } finally {
+    Deno.env.delete(name);
+  }
+}
+
+Deno.test('prepareBatch makes one entry per document, with unique names', async () => {
+  const batch = await prepareBatch({
+    documents: [
+      { name: 'Report.pdf', latex: DOCUMENT },
+      { name: 'report', latex: DOCUMENT },
+      { latex: DOCUMENT },
+      { name: '../a b', latex: DOCUMENT },
+    ],
+  }, null);
+
+  assertEquals(batch?.entries.map((entry) => entry.name), ['Report', 'report-2', 'document-003', 'a_b']);
+  assertEquals(batch?.output, 'zip');
+});
+
+Deno.test('prepareBatch makes one entry per template row', async () => {
+  const batch = await prepareBatch({
+    template: '{{name}}',
+    rows: [{ name: 'Ada' }, { name: 'Grace' }, { id: 3 }],
+    nameField: 'name',
+    output: 'merged',
+  }, null);
+
+  assertEquals(batch?.entries.map((entry) => entry.name), ['Ada', 'Grace', 'document-003']);
+  assertEquals(batch?.entries[1].build().files[0].content, 'Grace');
+  assertEquals(batch?.output, 'merged');
+});
+
+Deno.test('prepareBatch leaves invalid documents to fail on their own', async () => {
+  const batch = await prepareBatch({ documents: [{ latex: DOCUMENT }, { files: [] }] }, null);
+
+  assertEquals(batch?.entries[0].build().mainFile, 'document.tex');
+  assertThrows(() => batch?.entries[1].build(), ProjectValidationError, 'files must be a non-empty array');
+});
+
+Deno.test('prepareBatch limits the number of documents', async () => {
+  const documents = (count: number) => Array.from({ length: count }, () => ({ latex: DOCUMENT }));
+
+  assertEquals((await prepareBatch({ documents: documents(100) }, null))?.entries.length, 100);
+  await assertRejects(
+    () => prepareBatch({ documents: documents(101) }, null),
+    ProjectValidationError,
+    'Too many documents in batch (max 100)',
+  );
+  await withEnv('BATCH_MAX_DOCUMENTS', '2', () =>
+    assertRejects(
+      () => prepareBatch({ rows: [{}, {}, {}], template: 'x' }, null),
+      ProjectValidationError,
+      'Too many documents in batch (max 2)',
+    ));
+  // Capped at MAX_BATCH_SIZE
+  await withEnv('BATCH_MAX_DOCUMENTS', '100000', () =>
+    assertRejects(
+      () => prepareBatch({ documents: documents(501) }, null),
+      ProjectValidationError,
+      'Too many documents in batch (max 500)',
+    ));
+});
+
+Deno.test('prepareBatch rejects malformed requests', async () => {
+  await assertRejects(() => prepareBatch({}, null), ProjectValidationError, 'documents, or a template with rows');
+  await assertRejects(() => prepareBatch({ documents: [] }, null), ProjectValidationError, 'non-empty array');
+  await assertRejects(
+    () => prepareBatch({ documents: [{ latex: DOCUMENT }], rows: [{}] }, null),
+    ProjectValidationError,
+    'send either documents or a template with rows',
+  );
+  await assertRejects(
+    () => prepareBatch({ documents: [{ latex: DOCUMENT }], output: 'tar' }, null),
+    ProjectValidationError,
+    'output must be zip or merged',
+  );
+});
+
+Deno.test('maxBatchBodySize defaults to 20MB and can be configured', async () => {
+  assertEquals(maxBatchBodySize(), 20 * 1024 * 1024);
+  await withEnv('BATCH_MAX_BODY_BYTES', '1000', () => assertEquals(maxBatchBodySize(), 1000));
+  await withEnv('BATCH_MAX_BODY_BYTES', 'lots', () => assertEquals(maxBatchBodySize(), 20 * 1024 * 1024));
+});
@@ -0,0 +1,74 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { MAX_FILE_COUNT, MAX_TEXT_FILE_SIZE, normalizeProject, ProjectValidationError } from "../latex-convert/files.ts";
+
+const MAIN = { path: 'main.tex', content: '\\documentclass{article}' };
+
+function rejects(files: unknown, message: string, mainFile?: unknown) {
+  assertThrows(() => normalizeProject({ files, mainFile }), ProjectValidationError, message);
+}
+
+Deno.test('normalizeProject takes a single latex document as document.tex', () => {
+  assertEquals(normalizeProject({ latex: 'x' }), {
+    files: [{ path: 'document.tex', content: 'x', encoding: 'utf8' }],
+    mainFile: 'document.tex',
+  });
+  assertThrows(() => normalizeProject({}), ProjectValidationError, 'latex or files field is required');
+  assertThrows(
+    () => normalizeProject({ latex: 'x'.repeat(MAX_TEXT_FILE_SIZE + 1) }),
+    ProjectValidationError,
+    'LaTeX document too large',
+  );
+});
+
+Deno.test('normalizeProject defaults the main file to document.tex or main.tex', () => {
+  assertEquals(normalizeProject({ files: [MAIN] }).mainFile, 'main.tex');
+  assertEquals(normalizeProject({ files: [MAIN, { path: 'document.tex', content: '' }] }).mainFile, 'document.tex');
+  assertEquals(normalizeProject({ files: [MAIN, { path: 'b.tex', content: '' }], mainFile: 'b.tex' }).mainFile, 'b.tex');
+});
+
+Deno.test('normalizeProject rejects paths that could escape the project or be read as options', () => {
+  const paths = [
+    '',
+    '/etc/passwd',
+    '../main.tex',
+    'chapters/../../main.tex',
+    './main.tex',
+    'chapters//intro.tex',
+    'chapters\\intro.tex',
+    'main\0.tex',
+    '-shell-escape.tex',
+    'chapters/-intro.tex',
+    'a'.repeat(256),
+  ];
+  for (const path of paths) {
+    rejects([MAIN, { path, content: '' }], 'Invalid file path');
+  }
+  rejects([MAIN, { content: '' }], 'Invalid file path');
+});
+
+Deno.test('normalizeProject rejects latexmk configuration files', () => {
+  for (const path of ['latexmkrc', '.latexmkrc', 'chapters/.LatexMkRc']) {
+    rejects([MAIN, { path, content: '' }], 'latexmk configuration files are not allowed');
+  }
+});
+
+Deno.test('normalizeProject rejects invalid file lists and contents', () => {
+  rejects([], 'files must be a non-empty array');
+  rejects('main.tex', 'files must be a non-empty array');
+  rejects(
+    Array.from({ length: MAX_FILE_COUNT + 1 }, (_, i) => ({ path: `f${i}.tex`, content: '' })),
+    'Too many files',
+  );
+  rejects([MAIN, MAIN], 'Duplicate file path: main.tex');
+  rejects([MAIN, { path: 'a.tex', content: 1 }], 'Invalid content for file: a.tex');
+  rejects([MAIN, { path: 'a.tex', content: '', encoding: 'latin1' }], 'Invalid encoding for file: a.tex');
+  rejects([MAIN, { path: 'a.png', content: 'not base64!', encoding: 'base64' }], 'Invalid base64 content');
+  rejects([MAIN, { path: 'a.tex', content: 'x'.repeat(MAX_TEXT_FILE_SIZE + 1) }], 'File too large: a.tex');
+});
+
+Deno.test('normalizeProject rejects a missing or binary main file', () => {
+  rejects([{ path: 'intro.tex', content: '' }], 'Main file not found in files: main.tex');
+  rejects([MAIN], 'Main file not found in files: other.tex', 'other.tex');
+  rejects([MAIN], 'Main file not found in files: 1', 1);
+  rejects([{ path: 'main.tex', content: 'AAAA', encoding: 'base64' }], 'Main file must be a text file');
+});
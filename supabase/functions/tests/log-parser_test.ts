@@ -0,0 +1,81 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseTexLog } from "../latex-convert/log-parser.ts";
+
+Deno.test('parseTexLog reads file:line:error messages', () => {
+  assertEquals(parseTexLog('./chapters/intro.tex:12: Undefined control sequence.'), [
+    { severity: 'error', message: 'Undefined control sequence.', file: 'chapters/intro.tex', line: 12 },
+  ]);
+});
+
+Deno.test('parseTexLog attributes errors to the file being read', () => {
+  const log = [
+    '(./main.tex (./chapters/intro.tex',
+    '! Missing $ inserted.',
+    '<inserted text>',
+    'l.3 x^',
+    ')',
+    '! Emergency stop.',
+    'l.9 \\end{document}',
+    ')',
+  ].join('\n');
+
+  assertEquals(parseTexLog(log), [
+    { severity: 'error', message: 'Missing $ inserted.', file: 'chapters/intro.tex', line: 3 },
+    { severity: 'error', message: 'Emergency stop.', file: 'main.tex', line: 9 },
+  ]);
+});
+
+Deno.test('parseTexLog reads warnings and their input line', () => {
+  const log = [
+    '(./main.tex',
+    "LaTeX Warning: Reference `fig:plot' on page 1 undefined on input line 12.",
+    'Package hyperref Warning: Token not allowed in a PDF string',
+    "(hyperref)                removing `\\alpha' on input line 3.",
+    ')',
+  ].join('\n');
+
+  assertEquals(parseTexLog(log), [
+    {
+      severity: 'warning',
+      message: "Reference `fig:plot' on page 1 undefined on input line 12.",
+      file: 'main.tex',
+      line: 12,
+    },
+    {
+      severity: 'warning',
+      message: "Token not allowed in a PDF string removing `\\alpha' on input line 3.",
+      file: 'main.tex',
+      line: 3,
+    },
+  ]);
+});
+
+Deno.test('parseTexLog reads bad boxes', () => {
+  const log = '(./main.tex\nOverfull \\hbox (12.0pt too wide) in paragraph at lines 20--22\n)';
+
+  assertEquals(parseTexLog(log), [
+    {
+      severity: 'badbox',
+      message: 'Overfull \\hbox (12.0pt too wide) in paragraph at lines 20--22',
+      file: 'main.tex',
+      line: 20,
+    },
+  ]);
+});
+
+Deno.test('parseTexLog joins lines TeX wrapped at 79 characters', () => {
+  const warning = `LaTeX Warning: Reference \`${'a'.repeat(70)}' on page 1 undefined on input line 4.`;
+  const log = `(./main.tex\n${warning.slice(0, 79)}\n${warning.slice(79)}\n)`;
+
+  assertEquals(parseTexLog(log), [
+    { severity: 'warning', message: warning.slice('LaTeX Warning: '.length), file: 'main.tex', line: 4 },
+  ]);
+});
+
+Deno.test('parseTexLog ignores parentheses that do not open a file', () => {
+  const log = '(./main.tex [1] (see the transcript file)\n! Undefined control sequence.\nl.5 \\foo\n)';
+
+  assertEquals(parseTexLog(log), [
+    { severity: 'error', message: 'Undefined control sequence.', file: 'main.tex', line: 5 },
+  ]);
+});
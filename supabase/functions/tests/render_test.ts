@@ -0,0 +1,63 @@
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AuthError } from "../latex-convert/auth.ts";
+import { ProjectValidationError } from "../latex-convert/files.ts";
+import { renderTemplateProject, resolveTemplate } from "../latex-convert/render.ts";
+
+Deno.test('resolveTemplate takes an inline template as document.tex', async () => {
+  assertEquals(await resolveTemplate({ template: 'Hello {{name}}' }, null), {
+    files: { 'document.tex': 'Hello {{name}}' },
+    mainFile: 'document.tex',
+  });
+});
+
+Deno.test('resolveTemplate needs exactly one of templateId and template', async () => {
+  await assertRejects(
+    () => resolveTemplate({}, 'owner'),
+    ProjectValidationError,
+    'either templateId or template is required',
+  );
+  await assertRejects(
+    () => resolveTemplate({ templateId: 'id', template: 'x' }, 'owner'),
+    ProjectValidationError,
+    'either templateId or template is required',
+  );
+  await assertRejects(() => resolveTemplate({ template: '' }, null), ProjectValidationError);
+  await assertRejects(() => resolveTemplate({ templateId: 42 }, 'owner'), ProjectValidationError);
+});
+
+Deno.test('resolveTemplate requires an owner for stored templates', async () => {
+  const error = await assertRejects(
+    () => resolveTemplate({ templateId: '3f0c6b1e-2a4d-4f7e-9a51-0d7f1c2b9e44' }, null),
+    AuthError,
+  );
+  assertEquals(error.status, 401);
+});
+
+Deno.test('renderTemplateProject renders text files and adds extra files unrendered', () => {
+  const template = {
+    files: { 'main.tex': '\\input{body}\n{{title}}', 'body.tex': '{{& body}}' },
+    mainFile: 'main.tex',
+  };
+  const extra = { path: 'logo.png', content: 'iVBORw0KGgo=', encoding: 'base64' as const };
+
+  assertEquals(renderTemplateProject(template, { title: 'A & B', body: '\\emph{x}' }, [extra]), {
+    files: [
+      { path: 'main.tex', content: '\\input{body}\nA \\& B', encoding: 'utf8' },
+      { path: 'body.tex', content: '\\emph{x}', encoding: 'utf8' },
+      extra,
+    ],
+    mainFile: 'main.tex',
+  });
+});
+
+Deno.test('renderTemplateProject reports template errors as validation errors', () => {
+  const template = { files: { 'main.tex': '{{#items}}' }, mainFile: 'main.tex' };
+
+  assertThrows(() => renderTemplateProject(template, {}, []), ProjectValidationError, 'is never closed');
+  assertThrows(() => renderTemplateProject(template, [], []), ProjectValidationError, 'Invalid data: must be an object');
+  assertThrows(
+    () => renderTemplateProject({ files: { 'main.tex': 'x' }, mainFile: 'main.tex' }, {}, [{ path: '../x.png', content: '' }]),
+    ProjectValidationError,
+    'Invalid file path: ../x.png',
+  );
+});
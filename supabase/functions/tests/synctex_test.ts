@@ -0,0 +1,55 @@
+// The editor's SyncTeX parser, for the data the local backend returns
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { findPdfLocation, findSourceLocation, parseSynctex } from "../../../src/lib/synctex.ts";
+
+// One unit per PDF point keeps the coordinates readable
+const SYNCTEX = [
+  'SyncTeX Version:1',
+  'Input:1:./main.tex',
+  'Input:2:./chapters/./intro.tex',
+  'Output:pdf',
+  'Magnification:1000',
+  'Unit:65781.76',
+  'X Offset:0',
+  'Y Offset:0',
+  'Content:',
+  '{1',
+  '[1,1:0,0:595,842,0',
+  'h1,5:72,100:200,10,2',
+  'x1,7:80,130',
+  'h2,3:72,300:100,10,0',
+  ']',
+  '}1',
+  '{2',
+  'h1,20:72,50:200,10,2',
+  '}2',
+].join('\n');
+
+Deno.test('parseSynctex keeps horizontal boxes and points with normalized paths', () => {
+  assertEquals(parseSynctex(SYNCTEX).records, [
+    { file: 'main.tex', line: 5, page: 1, x: 72, y: 90, width: 200, height: 12 },
+    { file: 'main.tex', line: 7, page: 1, x: 80, y: 130, width: 0, height: 0 },
+    { file: 'chapters/intro.tex', line: 3, page: 1, x: 72, y: 290, width: 100, height: 10 },
+    { file: 'main.tex', line: 20, page: 2, x: 72, y: 40, width: 200, height: 12 },
+  ]);
+});
+
+Deno.test('findPdfLocation finds a line, or the closest earlier line with output', () => {
+  const data = parseSynctex(SYNCTEX);
+  const line5 = { page: 1, x: 72, y: 90, width: 200, height: 12 };
+
+  assertEquals(findPdfLocation(data, 'main.tex', 5), line5);
+  assertEquals(findPdfLocation(data, 'main.tex', 6), line5);
+  assertEquals(findPdfLocation(data, 'main.tex', 25), { page: 2, x: 72, y: 40, width: 200, height: 12 });
+  assertEquals(findPdfLocation(data, 'main.tex', 1), null);
+  assertEquals(findPdfLocation(data, 'other.tex', 5), null);
+});
+
+Deno.test('findSourceLocation prefers the box containing the point, then the nearest record', () => {
+  const data = parseSynctex(SYNCTEX);
+
+  assertEquals(findSourceLocation(data, 1, 100, 95), { file: 'main.tex', line: 5 });
+  assertEquals(findSourceLocation(data, 1, 80, 295), { file: 'chapters/intro.tex', line: 3 });
+  assertEquals(findSourceLocation(data, 1, 80, 140), { file: 'main.tex', line: 7 });
+  assertEquals(findSourceLocation(data, 3, 100, 100), null);
+});
@@ -0,0 +1,92 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { escapeLatex, renderTemplate, TemplateError, templateNames } from "../_shared/template.ts";
+
+Deno.test('escapeLatex escapes every special character', () => {
+  assertEquals(
+    escapeLatex('\\{}$&#%_~^'),
+    '\\textbackslash{}\\{\\}\\$\\&\\#\\%\\_\\textasciitilde{}\\textasciicircum{}',
+  );
+});
+
+Deno.test('renderTemplate escapes values unless they are raw', () => {
+  const source = '\\title{{{title}}}\n{{& body}}';
+
+  assertEquals(
+    renderTemplate('main.tex', source, { title: 'R&D_50%', body: '\\textbf{x}' }),
+    '\\title{R\\&D\\_50\\%}\n\\textbf{x}',
+  );
+});
+
+Deno.test('renderTemplate repeats sections and drops their tag lines', () => {
+  const source = 'a\n{{#items}}\n- {{name}}\n{{/items}}\nb';
+
+  assertEquals(renderTemplate('main.tex', source, { items: [{ name: 'x' }, { name: 'y' }] }), 'a\n- x\n- y\nb');
+  assertEquals(renderTemplate('main.tex', source, { items: [] }), 'a\nb');
+});
+
+Deno.test('renderTemplate renders inverted sections for empty values', () => {
+  const source = '{{^items}}none{{/items}}';
+
+  assertEquals(renderTemplate('main.tex', source, { items: [] }), 'none');
+  assertEquals(renderTemplate('main.tex', source, { items: [1] }), '');
+});
+
+Deno.test('renderTemplate looks up dotted names, list items and outer contexts', () => {
+  const source = '{{client.name}}: {{#tags}}{{.}}/{{sep}} {{/tags}}{{! not rendered }}';
+
+  assertEquals(
+    renderTemplate('main.tex', source, { client: { name: 'Ada' }, tags: ['a', 'b'], sep: '-' }),
+    'Ada: a/- b/- ',
+  );
+});
+
+Deno.test('renderTemplate uses the fallback for missing values', () => {
+  assertEquals(renderTemplate('main.tex', '{{name}}', {}), '');
+  assertEquals(renderTemplate('main.tex', '{{name}}', {}, { fallback: (name) => `[${name}]` }), '[name]');
+  assertEquals(renderTemplate('main.tex', '{{name}}', { name: 'x' }, { fallback: () => '[]' }), 'x');
+});
+
+Deno.test('renderTemplate leaves braces that are not tags alone', () => {
+  assertEquals(renderTemplate('main.tex', '{{\\bf x}} {{{a}}}', { a: 1 }), '{{\\bf x}} {1}');
+});
+
+Deno.test('renderTemplate rejects invalid templates and data', () => {
+  assertThrows(
+    () => renderTemplate('main.tex', 'a\n{{#items}}', {}),
+    TemplateError,
+    'Invalid template main.tex:2: {{#items}} is never closed',
+  );
+  assertThrows(
+    () => renderTemplate('main.tex', '{{#a}}{{/b}}', {}),
+    TemplateError,
+    '{{/b}} does not close an open section',
+  );
+  assertThrows(
+    () => renderTemplate('main.tex', '{{a}}', { a: { b: 1 } }),
+    TemplateError,
+    'a is not a string, number or boolean',
+  );
+});
+
+Deno.test('renderTemplate caps output size and work', () => {
+  const rows = [{ text: 'x'.repeat(60000) }, { text: 'x'.repeat(60000) }];
+  assertThrows(
+    () => renderTemplate('main.tex', '{{#rows}}{{text}}{{/rows}}', { rows }),
+    TemplateError,
+    'Rendered file too large: main.tex',
+  );
+  const items = Array.from({ length: 1000 }, (_, i) => i + 1);
+  assertThrows(
+    () => renderTemplate('main.tex', '{{#a}}{{#b}}{{/b}}{{/a}}', { a: items, b: items }),
+    TemplateError,
+    'Template too complex to render: main.tex',
+  );
+});
+
+Deno.test('templateNames lists the tags outside sections once', () => {
+  assertEquals(
+    templateNames('main.tex', '{{title}} {{#items}}{{name}}{{/items}} {{& author}} {{title}} {{.}}'),
+    ['title', 'items', 'author'],
+  );
+  assertThrows(() => templateNames('main.tex', '{{/items}}'), TemplateError);
+});
@@ -0,0 +1,110 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { decodeTextFile, findMainFile } from "../_shared/project-archive.ts";
+import { crc32, createZip, readZip, ZipError } from "../_shared/zip.ts";
+import { ProjectValidationError } from "../latex-convert/files.ts";
+import { projectFromZip } from "../latex-convert/zip.ts";
+
+const LIMITS = { maxEntries: 10, maxEntrySize: 1024 * 1024, maxTotalSize: 2 * 1024 * 1024 };
+const encoder = new TextEncoder();
+
+function entry(path: string, content: string | Uint8Array) {
+  return { path, data: typeof content === 'string' ? encoder.encode(content) : content };
+}
+
+// Bytes that deflate cannot shrink, so they are stored
+function noise(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = 1;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    bytes[i] = state >>> 24;
+  }
+  return bytes;
+}
+
+Deno.test('crc32 matches the standard check value', () => {
+  assertEquals(crc32(encoder.encode('123456789')), 0xcbf43926);
+});
+
+Deno.test('createZip and readZip round-trip deflated and stored entries', async () => {
+  const entries = [
+    entry('main.tex', '\\documentclass{article}\n'.repeat(100)),
+    entry('figures/plot.png', noise(4096)),
+    entry('empty.txt', ''),
+  ];
+
+  assertEquals(await readZip(await createZip(entries), LIMITS), entries);
+  assertEquals(await readZip(await createZip(entries, { compress: false }), LIMITS), entries);
+});
+
+Deno.test('readZip stops archives over the limits', async () => {
+  const bomb = await createZip([entry('bomb.txt', new Uint8Array(1024 * 1024))]);
+  await assertRejects(
+    () => readZip(bomb, { ...LIMITS, maxEntrySize: 1000 }),
+    ZipError,
+    'File too large once unpacked: bomb.txt',
+  );
+  await assertRejects(
+    () => readZip(bomb, { ...LIMITS, maxTotalSize: 1000 }),
+    ZipError,
+    'File too large once unpacked: bomb.txt',
+  );
+
+  const stored = await createZip([entry('a.bin', noise(2000))], { compress: false });
+  await assertRejects(() => readZip(stored, { ...LIMITS, maxEntrySize: 1000 }), ZipError, 'File too large');
+
+  const many = await createZip(Array.from({ length: 11 }, (_, i) => entry(`${i}.tex`, '')));
+  await assertRejects(() => readZip(many, LIMITS), ZipError, 'Too many entries in ZIP archive (max 10)');
+});
+
+Deno.test('readZip rejects data that is not a ZIP archive', async () => {
+  await assertRejects(() => readZip(new Uint8Array(10), LIMITS), ZipError, 'Invalid ZIP archive: too short');
+  await assertRejects(() => readZip(noise(100), LIMITS), ZipError, 'end of central directory not found');
+
+  const corrupt = await createZip([entry('main.tex', noise(100))]);
+  corrupt[0] = 0;
+  await assertRejects(() => readZip(corrupt, LIMITS), ZipError, 'Invalid ZIP archive: corrupt header for main.tex');
+});
+
+Deno.test('findMainFile prefers the usual names closest to the root', () => {
+  const documentClass = '\\documentclass{article}';
+
+  assertEquals(findMainFile({ 'paper.tex': documentClass, 'main.tex': documentClass }), 'main.tex');
+  assertEquals(findMainFile({ 'sub/main.tex': documentClass, 'paper.tex': documentClass }), 'paper.tex');
+  assertEquals(findMainFile({ 'b.tex': documentClass, 'a.tex': documentClass }), 'a.tex');
+  assertEquals(findMainFile({ 'main.tex': `% ${documentClass}`, 'notes.txt': documentClass }), undefined);
+});
+
+Deno.test('decodeTextFile only decodes UTF-8 text files', () => {
+  assertEquals(decodeTextFile('main.tex', encoder.encode('é'), 100), 'é');
+  assertEquals(decodeTextFile('main.tex', new Uint8Array([0xe9]), 100), null);
+  assertEquals(decodeTextFile('main.tex', encoder.encode('x'.repeat(101)), 100), null);
+  assertEquals(decodeTextFile('figure.svg', encoder.encode('<svg/>'), 100), null);
+});
+
+Deno.test('projectFromZip drops the root folder and metadata and finds the main file', async () => {
+  const zip = await createZip([
+    entry('paper/main.tex', '\\documentclass{article}'),
+    entry('paper/figures/plot.png', new Uint8Array([1, 2, 3])),
+    entry('paper/.DS_Store', ''),
+    entry('paper/.latexmkrc', '$pdf_mode = 1;'),
+  ]);
+
+  assertEquals(await projectFromZip(zip), {
+    files: [
+      { path: 'main.tex', content: '\\documentclass{article}', encoding: 'utf8' },
+      { path: 'figures/plot.png', content: 'AQID', encoding: 'base64' },
+    ],
+    mainFile: 'main.tex',
+  });
+});
+
+Deno.test('projectFromZip rejects unsafe paths and archives without a main file', async () => {
+  const unsafe = await createZip([entry('main.tex', '\\documentclass{article}'), entry('../evil.tex', '')]);
+  await assertRejects(() => projectFromZip(unsafe), ProjectValidationError, 'Invalid file path in ZIP archive: ../evil.tex');
+
+  const noMain = await createZip([entry('notes.txt', '\\documentclass{article}')]);
+  await assertRejects(() => projectFromZip(noMain), ProjectValidationError, 'No main file found');
+
+  await assertRejects(() => projectFromZip(new Uint8Array(10)), ProjectValidationError, 'Invalid ZIP archive');
+});
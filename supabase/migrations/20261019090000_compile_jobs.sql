@@ -0,0 +1,27 @@
+-- Asynchronous compile jobs created by the latex-convert function
+create type public.compile_job_status as enum ('queued', 'running', 'succeeded', 'failed');
+
+create table public.compile_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status public.compile_job_status not null default 'queued',
+  progress smallint not null default 0 check (progress between 0 and 100),
+  engine text not null,
+  main_file text not null,
+  log_tail text,
+  diagnostics jsonb,
+  error text,
+  pdf_path text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index compile_jobs_created_at_idx on public.compile_jobs (created_at);
+
+-- Only the edge function (service role) reads and writes jobs
+alter table public.compile_jobs enable row level security;
+
+-- Compiled PDFs, served to clients through signed URLs
+insert into storage.buckets (id, name, public)
+values ('compile-results', 'compile-results', false)
+on conflict (id) do nothing;
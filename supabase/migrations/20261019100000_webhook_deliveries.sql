@@ -0,0 +1,20 @@
+-- Webhook callbacks for finished compile jobs
+alter table public.compile_jobs add column callback_url text;
+
+-- One row per delivery attempt, so failed callbacks can be inspected
+create table public.webhook_deliveries (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.compile_jobs (id) on delete cascade,
+  delivery_id uuid not null,
+  url text not null,
+  attempt smallint not null,
+  success boolean not null,
+  status_code smallint,
+  error text,
+  response_excerpt text,
+  created_at timestamptz not null default now()
+);
+
+create index webhook_deliveries_job_id_idx on public.webhook_deliveries (job_id);
+
+alter table public.webhook_deliveries enable row level security;
@@ -0,0 +1,19 @@
+-- Content-addressed cache of successful compiles, keyed by a SHA-256 of the
+-- sources, engine and backend
+create table public.compile_cache (
+  key text primary key,
+  pdf_path text not null,
+  diagnostics jsonb,
+  size_bytes integer not null,
+  created_at timestamptz not null default now(),
+  last_hit_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index compile_cache_last_hit_at_idx on public.compile_cache (last_hit_at);
+
+alter table public.compile_cache enable row level security;
+
+insert into storage.buckets (id, name, public)
+values ('compile-cache', 'compile-cache', false)
+on conflict (id) do nothing;
@@ -0,0 +1,41 @@
+-- Per-user API keys. Only a SHA-256 hash of each key is stored; the key
+-- itself is shown once when it is created.
+create table public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  label text not null,
+  key_prefix text not null unique,
+  key_hash text not null,
+  scopes text[] not null default '{compile,jobs:read}',
+  webhook_secret text not null,
+  rotated_from uuid references public.api_keys (id) on delete set null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  constraint api_keys_scopes_check check (scopes <@ array['compile', 'jobs:read'])
+);
+
+create index api_keys_owner_id_idx on public.api_keys (owner_id);
+
+alter table public.api_keys enable row level security;
+
+create policy "Users can view their API keys"
+  on public.api_keys for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+create policy "Users can create their API keys"
+  on public.api_keys for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+create policy "Users can update their API keys"
+  on public.api_keys for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+-- Owners may relabel and revoke keys, but never change the key material
+revoke update on public.api_keys from authenticated;
+grant update (label, revoked_at) on public.api_keys to authenticated;
@@ -0,0 +1,95 @@
+-- Token buckets shared by all edge function instances, keyed by
+-- "key:<api key id>" or "ip:<address>"
+create table public.rate_limit_buckets (
+  bucket text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.rate_limit_buckets enable row level security;
+
+-- Refills the bucket for the time elapsed since its last use, then takes one
+-- token if available. reset_seconds is the time until the bucket is full
+-- again, or until the next token when the request was denied.
+create or replace function public.consume_rate_limit(
+  p_bucket text,
+  p_capacity integer,
+  p_refill_per_second double precision
+)
+returns table (allowed boolean, remaining integer, reset_seconds double precision)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+begin
+  insert into rate_limit_buckets (bucket, tokens, updated_at)
+  values (p_bucket, p_capacity, v_now)
+  on conflict (bucket) do nothing;
+
+  select least(p_capacity, b.tokens + extract(epoch from (v_now - b.updated_at)) * p_refill_per_second)
+    into v_tokens
+    from rate_limit_buckets b
+    where b.bucket = p_bucket
+    for update;
+
+  allowed := v_tokens >= 1;
+  if allowed then
+    v_tokens := v_tokens - 1;
+  end if;
+
+  update rate_limit_buckets
+    set tokens = v_tokens, updated_at = v_now
+    where bucket = p_bucket;
+
+  remaining := floor(v_tokens);
+  reset_seconds := case
+    when allowed then (p_capacity - v_tokens) / p_refill_per_second
+    else (1 - v_tokens) / p_refill_per_second
+  end;
+  return next;
+end;
+$$;
+
+revoke execute on function public.consume_rate_limit(text, integer, double precision) from public, anon, authenticated;
+
+-- Monthly quotas; null uses the function's defaults
+alter table public.api_keys
+  add column monthly_compile_limit integer,
+  add column monthly_compile_seconds_limit integer;
+
+create table public.api_key_usage (
+  key_id uuid not null references public.api_keys (id) on delete cascade,
+  period_start date not null,
+  compile_count integer not null default 0,
+  compile_seconds double precision not null default 0,
+  primary key (key_id, period_start)
+);
+
+alter table public.api_key_usage enable row level security;
+
+create policy "Users can view usage of their API keys"
+  on public.api_key_usage for select
+  to authenticated
+  using (exists (select 1 from public.api_keys k where k.id = key_id and k.owner_id = auth.uid()));
+
+create or replace function public.record_api_key_usage(
+  p_key_id uuid,
+  p_period_start date,
+  p_seconds double precision
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into api_key_usage (key_id, period_start, compile_count, compile_seconds)
+  values (p_key_id, p_period_start, 1, p_seconds)
+  on conflict (key_id, period_start) do update
+    set compile_count = api_key_usage.compile_count + 1,
+        compile_seconds = api_key_usage.compile_seconds + excluded.compile_seconds;
+$$;
+
+revoke execute on function public.record_api_key_usage(uuid, date, double precision) from public, anon, authenticated;
@@ -0,0 +1,62 @@
+-- One row per compile, written by the latex-convert function
+create table public.compile_events (
+  id uuid primary key default gen_random_uuid(),
+  key_id uuid references public.api_keys (id) on delete set null,
+  owner_id uuid references auth.users (id) on delete cascade,
+  backend text not null,
+  engine text not null,
+  outcome text not null check (outcome in ('succeeded', 'failed', 'error')),
+  cache_hit boolean not null default false,
+  duration_ms integer not null,
+  input_bytes integer not null,
+  output_bytes integer,
+  page_count integer,
+  created_at timestamptz not null default now()
+);
+
+create index compile_events_owner_created_at_idx on public.compile_events (owner_id, created_at);
+create index compile_events_key_created_at_idx on public.compile_events (key_id, created_at);
+
+alter table public.compile_events enable row level security;
+
+create policy "Users can view compile events of their API keys"
+  on public.compile_events for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+-- Daily totals and latency percentiles for the usage dashboard, bucketed by
+-- calendar day in p_time_zone. Runs with the caller's rights, so users only
+-- ever aggregate their own events.
+create or replace function public.compile_usage_daily(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_key_id uuid default null,
+  p_time_zone text default 'UTC'
+)
+returns table (
+  day date,
+  compiles integer,
+  failures integer,
+  cache_hits integer,
+  p50_ms double precision,
+  p95_ms double precision
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    (e.created_at at time zone p_time_zone)::date as day,
+    count(*)::integer as compiles,
+    count(*) filter (where e.outcome <> 'succeeded')::integer as failures,
+    count(*) filter (where e.cache_hit)::integer as cache_hits,
+    percentile_cont(0.5) within group (order by e.duration_ms) as p50_ms,
+    percentile_cont(0.95) within group (order by e.duration_ms) as p95_ms
+  from compile_events e
+  where e.created_at >= p_from
+    and e.created_at < p_to
+    and (p_key_id is null or e.key_id = p_key_id)
+  group by 1
+  order by 1;
+$$;
@@ -0,0 +1,4 @@
+-- SyncTeX data stored next to compiled PDFs for editor/preview navigation
+alter table public.compile_jobs add column synctex_path text;
+
+alter table public.compile_cache add column synctex_path text;
@@ -0,0 +1,107 @@
+-- Saved editor projects. Each project is a set of files with one of them
+-- compiled as the main file.
+create table public.projects (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  main_file text not null default 'document.tex',
+  engine text not null default 'pdflatex',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index projects_owner_id_updated_at_idx on public.projects (owner_id, updated_at desc);
+
+create table public.project_files (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  path text not null,
+  content text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (project_id, path)
+);
+
+-- Any change to a project or one of its files bumps the project's
+-- updated_at, which orders the project list.
+create or replace function public.touch_project()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at := now();
+  if tg_table_name = 'project_files' then
+    update projects set updated_at = now() where id = new.project_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger projects_touch
+  before update on public.projects
+  for each row execute function public.touch_project();
+
+create trigger project_files_touch
+  before insert or update on public.project_files
+  for each row execute function public.touch_project();
+
+alter table public.projects enable row level security;
+alter table public.project_files enable row level security;
+
+create policy "Users can view their projects"
+  on public.projects for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+create policy "Users can create their projects"
+  on public.projects for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+create policy "Users can update their projects"
+  on public.projects for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Users can delete their projects"
+  on public.projects for delete
+  to authenticated
+  using (owner_id = auth.uid());
+
+create policy "Users can manage files of their projects"
+  on public.project_files for all
+  to authenticated
+  using (exists (select 1 from public.projects p where p.id = project_id and p.owner_id = auth.uid()))
+  with check (exists (select 1 from public.projects p where p.id = project_id and p.owner_id = auth.uid()));
+
+-- Copies a project and all of its files in one transaction. Runs with the
+-- caller's rights, so only the caller's own projects can be copied.
+create or replace function public.duplicate_project(p_project_id uuid, p_name text)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  insert into projects (owner_id, name, main_file, engine)
+  select auth.uid(), p_name, p.main_file, p.engine
+  from projects p
+  where p.id = p_project_id
+  returning id into v_id;
+
+  if v_id is null then
+    raise exception 'Project not found' using errcode = 'P0002';
+  end if;
+
+  insert into project_files (project_id, path, content)
+  select v_id, f.path, f.content
+  from project_files f
+  where f.project_id = p_project_id;
+
+  return v_id;
+end;
+$$;
@@ -0,0 +1,19 @@
+-- Renames or moves a project file, or a folder with everything inside it,
+-- keeping the project's main file pointing at the same file. Runs with the
+-- caller's rights, so only the caller's own projects are affected.
+create or replace function public.rename_project_path(p_project_id uuid, p_from text, p_to text)
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  update project_files
+  set path = p_to || substr(path, length(p_from) + 1)
+  where project_id = p_project_id
+    and (path = p_from or starts_with(path, p_from || '/'));
+
+  update projects
+  set main_file = p_to || substr(main_file, length(p_from) + 1)
+  where id = p_project_id
+    and (main_file = p_from or starts_with(main_file, p_from || '/'));
+$$;
@@ -0,0 +1,98 @@
+-- Binary project files (images, PDF and EPS figures). Their bytes live in
+-- the project-assets bucket under <project id>/<uuid>; the project_files row
+-- keeps the path, an empty content and the object's size.
+alter table public.project_files
+  add column storage_path text,
+  add column size_bytes integer not null default 0,
+  add constraint project_files_asset_size_check check (storage_path is null or size_bytes <= 2097152);
+
+-- Keeps every project within the 5MB the latex-convert function accepts
+create or replace function public.check_project_size()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_total bigint;
+begin
+  select coalesce(sum(case when f.storage_path is null then octet_length(f.content) else f.size_bytes end), 0)
+  into v_total
+  from project_files f
+  where f.project_id = new.project_id;
+
+  if v_total > 5 * 1024 * 1024 then
+    raise exception 'Project too large (max 5MB)' using errcode = '54000';
+  end if;
+  return null;
+end;
+$$;
+
+create constraint trigger project_files_size
+  after insert or update on public.project_files
+  deferrable initially deferred
+  for each row execute function public.check_project_size();
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'project-assets',
+  'project-assets',
+  false,
+  2097152,
+  array['image/png', 'image/jpeg', 'application/pdf', 'application/postscript', 'image/x-eps']
+)
+on conflict (id) do nothing;
+
+-- Objects are readable and writable by the owner of the project named by
+-- the first path segment
+create policy "Users can manage assets of their projects"
+  on storage.objects for all
+  to authenticated
+  using (
+    bucket_id = 'project-assets'
+    and exists (
+      select 1 from public.projects p
+      where p.id::text = (storage.foldername(name))[1] and p.owner_id = auth.uid()
+    )
+  )
+  with check (
+    bucket_id = 'project-assets'
+    and exists (
+      select 1 from public.projects p
+      where p.id::text = (storage.foldername(name))[1] and p.owner_id = auth.uid()
+    )
+  );
+
+-- Copies now point at objects under the new project; the client copies the
+-- objects themselves, which SQL cannot do.
+create or replace function public.duplicate_project(p_project_id uuid, p_name text)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  insert into projects (owner_id, name, main_file, engine)
+  select auth.uid(), p_name, p.main_file, p.engine
+  from projects p
+  where p.id = p_project_id
+  returning id into v_id;
+
+  if v_id is null then
+    raise exception 'Project not found' using errcode = 'P0002';
+  end if;
+
+  insert into project_files (project_id, path, content, storage_path, size_bytes)
+  select
+    v_id,
+    f.path,
+    f.content,
+    case when f.storage_path is null then null else v_id || '/' || split_part(f.storage_path, '/', 2) end,
+    f.size_bytes
+  from project_files f
+  where f.project_id = p_project_id;
+
+  return v_id;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Keys with projects:write can create saved projects from uploaded archives.
+-- Existing keys keep the scopes they were created with.
+alter table public.api_keys
+  drop constraint api_keys_scopes_check,
+  add constraint api_keys_scopes_check check (scopes <@ array['compile', 'jobs:read', 'projects:write']);
@@ -0,0 +1,5 @@
+-- Full compile logs and .bbl files stored next to compiled PDFs, for exports
+-- and arXiv submissions
+alter table public.compile_jobs
+  add column log_path text,
+  add column bbl_path text;
@@ -0,0 +1,45 @@
+-- Starter documents uploaded by users, shown in the template gallery next to
+-- the built-in ones. Shared templates are visible to every signed-in user of
+-- this deployment; the others only to their owner.
+create table public.templates (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  description text not null default '',
+  category text not null default 'Team',
+  -- Thumbnail drawn in the gallery: article, report, slides, cv, letter,
+  -- paper or thesis
+  layout text not null default 'article',
+  engine text not null default 'pdflatex',
+  main_file text not null default 'document.tex',
+  -- Text file contents by path, with {{field}} placeholders
+  files jsonb not null check (jsonb_typeof(files) = 'object' and octet_length(files::text) <= 5242880),
+  shared boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index templates_created_at_idx on public.templates (created_at desc);
+
+alter table public.templates enable row level security;
+
+create policy "Users can view shared and their own templates"
+  on public.templates for select
+  to authenticated
+  using (shared or owner_id = auth.uid());
+
+create policy "Users can create their templates"
+  on public.templates for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+create policy "Users can update their templates"
+  on public.templates for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Users can delete their templates"
+  on public.templates for delete
+  to authenticated
+  using (owner_id = auth.uid());
@@ -0,0 +1,24 @@
+-- Asynchronous batch compiles created by the latex-convert function. Items
+-- hold each document's name, status, error and diagnostics; the ZIP or
+-- merged PDF is stored in the compile-results bucket.
+create table public.compile_batches (
+  id uuid primary key default gen_random_uuid(),
+  status public.compile_job_status not null default 'queued',
+  progress smallint not null default 0 check (progress between 0 and 100),
+  engine text not null,
+  output text not null check (output in ('zip', 'merged')),
+  total integer not null,
+  succeeded integer not null default 0,
+  failed integer not null default 0,
+  items jsonb not null default '[]',
+  error text,
+  output_path text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index compile_batches_created_at_idx on public.compile_batches (created_at);
+
+-- Only the edge function (service role) reads and writes batches
+alter table public.compile_batches enable row level security;
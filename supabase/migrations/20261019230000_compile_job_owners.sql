@@ -0,0 +1,9 @@
+-- Jobs record the API key and user that created them, so only that user's
+-- callers can read them. They expire after COMPILE_JOB_TTL_SECONDS; the
+-- latex-convert function deletes expired rows and their stored results.
+alter table public.compile_jobs
+  add column key_id uuid references public.api_keys (id) on delete set null,
+  add column owner_id uuid references auth.users (id) on delete cascade,
+  add column expires_at timestamptz not null default now() + interval '1 day';
+
+create index compile_jobs_expires_at_idx on public.compile_jobs (expires_at);
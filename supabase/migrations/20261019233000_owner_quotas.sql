@@ -0,0 +1,71 @@
+-- Monthly quotas and usage belong to the user rather than to each API key.
+-- Users could insert keys with any limit they liked, and rotating a key or
+-- creating another one started a fresh quota. Limits are now only set with
+-- the service role; null uses the function's defaults.
+create table public.compile_quotas (
+  owner_id uuid primary key references auth.users (id) on delete cascade,
+  monthly_compile_limit integer,
+  monthly_compile_seconds_limit integer
+);
+
+alter table public.compile_quotas enable row level security;
+
+create policy "Users can view their compile quota"
+  on public.compile_quotas for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+-- Keeps the limit of each user's most recent key that had one
+insert into public.compile_quotas (owner_id, monthly_compile_limit, monthly_compile_seconds_limit)
+select distinct on (owner_id) owner_id, monthly_compile_limit, monthly_compile_seconds_limit
+from public.api_keys
+where monthly_compile_limit is not null or monthly_compile_seconds_limit is not null
+order by owner_id, created_at desc;
+
+alter table public.api_keys
+  drop column monthly_compile_limit,
+  drop column monthly_compile_seconds_limit;
+
+-- Compiles made with any of the user's API keys
+create table public.compile_usage (
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  period_start date not null,
+  compile_count integer not null default 0,
+  compile_seconds double precision not null default 0,
+  primary key (owner_id, period_start)
+);
+
+alter table public.compile_usage enable row level security;
+
+create policy "Users can view their compile usage"
+  on public.compile_usage for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+insert into public.compile_usage (owner_id, period_start, compile_count, compile_seconds)
+select k.owner_id, u.period_start, sum(u.compile_count), sum(u.compile_seconds)
+from public.api_key_usage u
+join public.api_keys k on k.id = u.key_id
+group by k.owner_id, u.period_start;
+
+drop function public.record_api_key_usage(uuid, date, double precision);
+drop table public.api_key_usage;
+
+create or replace function public.record_compile_usage(
+  p_owner_id uuid,
+  p_period_start date,
+  p_seconds double precision
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into compile_usage (owner_id, period_start, compile_count, compile_seconds)
+  values (p_owner_id, p_period_start, 1, p_seconds)
+  on conflict (owner_id, period_start) do update
+    set compile_count = compile_usage.compile_count + 1,
+        compile_seconds = compile_usage.compile_seconds + excluded.compile_seconds;
+$$;
+
+revoke execute on function public.record_compile_usage(uuid, date, double precision) from public, anon, authenticated;
@@ -0,0 +1,60 @@
+-- Batches record their API key and user like compile jobs, so only that
+-- user's callers can read them, and expire with them.
+alter table public.compile_batches
+  add column key_id uuid references public.api_keys (id) on delete set null,
+  add column owner_id uuid references auth.users (id) on delete cascade,
+  add column expires_at timestamptz not null default now() + interval '1 day';
+
+create index compile_batches_expires_at_idx on public.compile_batches (expires_at);
+
+-- Requests can take more than one token, so a batch pays for each of its
+-- documents. A request is allowed once the bucket holds its cost, or is
+-- full for costs above the capacity; the balance may then go negative,
+-- holding back later requests until the bucket has refilled.
+drop function public.consume_rate_limit(text, integer, double precision);
+
+create function public.consume_rate_limit(
+  p_bucket text,
+  p_capacity integer,
+  p_refill_per_second double precision,
+  p_cost integer default 1
+)
+returns table (allowed boolean, remaining integer, reset_seconds double precision)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+  v_needed double precision := least(p_cost, p_capacity);
+begin
+  insert into rate_limit_buckets (bucket, tokens, updated_at)
+  values (p_bucket, p_capacity, v_now)
+  on conflict (bucket) do nothing;
+
+  select least(p_capacity, b.tokens + extract(epoch from (v_now - b.updated_at)) * p_refill_per_second)
+    into v_tokens
+    from rate_limit_buckets b
+    where b.bucket = p_bucket
+    for update;
+
+  allowed := v_tokens >= v_needed;
+  if allowed then
+    v_tokens := v_tokens - p_cost;
+  end if;
+
+  update rate_limit_buckets
+    set tokens = v_tokens, updated_at = v_now
+    where bucket = p_bucket;
+
+  remaining := greatest(0, floor(v_tokens));
+  reset_seconds := case
+    when allowed then (p_capacity - v_tokens) / p_refill_per_second
+    else (v_needed - v_tokens) / p_refill_per_second
+  end;
+  return next;
+end;
+$$;
+
+revoke execute on function public.consume_rate_limit(text, integer, double precision, integer) from public, anon, authenticated;
@@ -0,0 +1,136 @@
+-- Asset sizes come from the stored objects rather than from the client. An
+-- asset's project_files row is written before its object, and objects can
+-- only be uploaded under a path such a row names.
+alter table public.project_files
+  add constraint project_files_storage_path_check
+    check (storage_path is null or storage_path like project_id::text || '/%');
+
+-- size_bytes mirrors the object's size, or 0 while it is not uploaded yet
+create or replace function public.set_project_asset_size()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.storage_path is null then
+    new.size_bytes := 0;
+  else
+    select coalesce((o.metadata->>'size')::integer, 0)
+    into new.size_bytes
+    from storage.objects o
+    where o.bucket_id = 'project-assets' and o.name = new.storage_path;
+    new.size_bytes := coalesce(new.size_bytes, 0);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger project_files_asset_size
+  before insert or update on public.project_files
+  for each row execute function public.set_project_asset_size();
+
+create or replace function public.sync_project_asset_size()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update project_files
+  set size_bytes = coalesce((new.metadata->>'size')::integer, 0)
+  where storage_path = new.name;
+  return null;
+end;
+$$;
+
+create trigger project_assets_size
+  after insert or update of metadata on storage.objects
+  for each row
+  when (new.bucket_id = 'project-assets')
+  execute function public.sync_project_asset_size();
+
+-- Counts every object under the project's folder, whether or not a row
+-- still points at it. Runs for project_files rows and for stored objects.
+create or replace function public.check_project_size()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_project_id text;
+  v_total bigint;
+begin
+  if tg_table_name = 'objects' then
+    v_project_id := (storage.foldername(new.name))[1];
+  else
+    v_project_id := new.project_id::text;
+  end if;
+
+  select
+    coalesce((
+      select sum(octet_length(f.content))
+      from project_files f
+      where f.project_id::text = v_project_id and f.storage_path is null
+    ), 0)
+    + coalesce((
+      select sum(coalesce((o.metadata->>'size')::bigint, 0))
+      from storage.objects o
+      where o.bucket_id = 'project-assets' and (storage.foldername(o.name))[1] = v_project_id
+    ), 0)
+  into v_total;
+
+  if v_total > 5 * 1024 * 1024 then
+    raise exception 'Project too large (max 5MB)' using errcode = '54000';
+  end if;
+  return null;
+end;
+$$;
+
+create constraint trigger project_assets_total_size
+  after insert or update on storage.objects
+  deferrable initially deferred
+  for each row
+  when (new.bucket_id = 'project-assets')
+  execute function public.check_project_size();
+
+-- The previous policy compared the folder with projects.name, which shadows
+-- storage.objects.name inside the subquery, and allowed any upload into a
+-- project's folder.
+drop policy "Users can manage assets of their projects" on storage.objects;
+
+create policy "Users can read assets of their projects"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'project-assets'
+    and exists (
+      select 1 from public.projects p
+      where p.id::text = (storage.foldername(objects.name))[1] and p.owner_id = auth.uid()
+    )
+  );
+
+create policy "Users can upload recorded assets of their projects"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'project-assets'
+    and exists (
+      select 1
+      from public.project_files f
+      join public.projects p on p.id = f.project_id
+      where f.storage_path = objects.name and p.owner_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete assets of their projects"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'project-assets'
+    and exists (
+      select 1 from public.projects p
+      where p.id::text = (storage.foldername(objects.name))[1] and p.owner_id = auth.uid()
+    )
+  );
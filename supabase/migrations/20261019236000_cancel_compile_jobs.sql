@@ -0,0 +1,3 @@
+-- Jobs can be cancelled by their owner while queued or running, e.g. when
+-- the editor's live preview starts a newer compile
+alter type public.compile_job_status add value 'cancelled';
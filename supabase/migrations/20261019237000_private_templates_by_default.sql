@@ -0,0 +1,3 @@
+-- Uploaded templates are private until their owner shares them; shared ones
+-- are visible to every signed-in user of the deployment
+alter table public.templates alter column shared set default false;
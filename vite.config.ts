@@ -13,6 +13,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Modules shared with the edge functions
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));